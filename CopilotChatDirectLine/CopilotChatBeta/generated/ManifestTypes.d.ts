@@ -4,16 +4,32 @@
 
 // Define IInputs and IOutputs Type. They should match with ControlManifest.
 export interface IInputs {
+    TokenEndpoint: ComponentFramework.PropertyTypes.StringProperty;
     DirectLineSecret: ComponentFramework.PropertyTypes.StringProperty;
+    AllowSecretInBrowser: ComponentFramework.PropertyTypes.TwoOptionsProperty;
     DirectLineEndpoint: ComponentFramework.PropertyTypes.StringProperty;
     SpeechKey: ComponentFramework.PropertyTypes.StringProperty;
     SpeechRegion: ComponentFramework.PropertyTypes.StringProperty;
     OpenAIEndpoint: ComponentFramework.PropertyTypes.StringProperty;
     OpenAIKey: ComponentFramework.PropertyTypes.StringProperty;
     OpenAIDeployment: ComponentFramework.PropertyTypes.StringProperty;
+    WhisperDeployment: ComponentFramework.PropertyTypes.StringProperty;
+    SpeechToTextProvider: ComponentFramework.PropertyTypes.StringProperty;
+    WakePhrase: ComponentFramework.PropertyTypes.StringProperty;
+    AutoSendDelay: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    ConfirmBeforeSend: ComponentFramework.PropertyTypes.TwoOptionsProperty;
     ModalTitle: ComponentFramework.PropertyTypes.StringProperty;
     EnableAttachments: ComponentFramework.PropertyTypes.TwoOptionsProperty;
     AttachmentIcon: ComponentFramework.PropertyTypes.StringProperty;
+    LatestCardOnly: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    Locale: ComponentFramework.PropertyTypes.StringProperty;
+    Theme: ComponentFramework.PropertyTypes.StringProperty;
+    ThemeJson: ComponentFramework.PropertyTypes.StringProperty;
+    PrimaryColor: ComponentFramework.PropertyTypes.StringProperty;
+    BackgroundColor: ComponentFramework.PropertyTypes.StringProperty;
+    FontFamily: ComponentFramework.PropertyTypes.StringProperty;
+    FontSize: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    CornerRadius: ComponentFramework.PropertyTypes.WholeNumberProperty;
 }
 export interface IOutputs {
     Version?: string;
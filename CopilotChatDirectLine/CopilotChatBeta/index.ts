@@ -15,9 +15,14 @@ interface Mode {
     trackContainerResize: (track: boolean) => void;
 }
 
+interface UserSettings {
+    languageId?: number;
+}
+
 interface Context<T> {
     mode: Mode;
     parameters: T;
+    userSettings?: UserSettings;
 }
 
 export class CopilotStudioChatBeta {
@@ -76,6 +81,7 @@ export class CopilotStudioChatBeta {
                     this._notifyOutputChanged!();
                 },
                 context: context,
+                userLanguageId: context.userSettings?.languageId,
                 ...context.parameters
             };
             this._rootControl!.render(React.createElement(Control, props));
@@ -92,6 +98,7 @@ export class CopilotStudioChatBeta {
                 this._notifyOutputChanged!();
             },
             context: context,
+            userLanguageId: context.userSettings?.languageId,
             ...context.parameters
         };
 
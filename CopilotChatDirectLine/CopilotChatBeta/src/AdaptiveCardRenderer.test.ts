@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { AdaptiveCard, Input } from 'adaptivecards';
+import { createHostConfig, fillInputValues, getFallbackErrorMessage, isRefreshForUser } from './AdaptiveCardRenderer';
+import { createTranslator } from './utils/i18n';
+import { DEFAULT_THEME } from './utils/theme';
+
+const refreshCard = (userIds?: string[]): AdaptiveCard => {
+    const card = new AdaptiveCard();
+    card.parse({
+        type: 'AdaptiveCard',
+        version: '1.4',
+        refresh: { action: { type: 'Action.Execute', verb: 'status' }, userIds },
+        body: [{ type: 'TextBlock', text: 'Pending' }]
+    });
+    return card;
+};
+
+describe('isRefreshForUser', () => {
+    it('refreshes for everyone when the card names no users', () => {
+        expect(isRefreshForUser(refreshCard().refresh?.userIds)).toBe(true);
+        expect(isRefreshForUser(refreshCard([]).refresh?.userIds)).toBe(true);
+    });
+
+    it('refreshes only when our user is listed', () => {
+        expect(isRefreshForUser(refreshCard(['someone-else', 'user']).refresh?.userIds)).toBe(true);
+        expect(isRefreshForUser(refreshCard(['someone-else']).refresh?.userIds)).toBe(false);
+    });
+});
+
+describe('getFallbackErrorMessage', () => {
+    const t = createTranslator('en-US');
+
+    const invalidInputs = (body: unknown[]): Input[] => {
+        const card = new AdaptiveCard();
+        card.parse({ type: 'AdaptiveCard', version: '1.5', body, actions: [{ type: 'Action.Submit' }] });
+        return card.getAllActions()[0].validateInputs();
+    };
+
+    it('names a required input that was left empty', () => {
+        const [input] = invalidInputs([{ type: 'Input.Text', id: 'name', label: 'Name', isRequired: true }]);
+
+        expect(getFallbackErrorMessage(input, t)).toBe('Name is required.');
+    });
+
+    it('calls a filled-in value that fails validation invalid', () => {
+        // Range and regex checks need a rendered card, so stand in for a filled-in input
+        const input = { label: 'Age', isSet: () => true } as unknown as Input;
+
+        expect(getFallbackErrorMessage(input, t)).toBe('Age is not valid.');
+    });
+
+    it('falls back to a generic name for unlabelled inputs', () => {
+        const [input] = invalidInputs([{ type: 'Input.Text', id: 'name', isRequired: true }]);
+
+        expect(getFallbackErrorMessage(input, createTranslator('es-ES'))).toBe('Este campo es obligatorio.');
+    });
+});
+
+describe('fillInputValues', () => {
+    const card = {
+        type: 'AdaptiveCard',
+        body: [
+            { type: 'TextBlock', id: 'name', text: 'Your details' },
+            { type: 'Input.Text', id: 'name', value: 'placeholder' },
+            {
+                type: 'ColumnSet',
+                columns: [{ type: 'Column', items: [{ type: 'Input.Toggle', id: 'subscribe', title: 'Subscribe' }] }]
+            },
+            { type: 'Input.Number', id: 'age' }
+        ],
+        actions: [{ type: 'Action.ShowCard', card: { type: 'AdaptiveCard', body: [{ type: 'Input.Date', id: 'when' }] } }]
+    };
+
+    it('sets submitted values on inputs at any depth', () => {
+        const filled = fillInputValues(card, { name: 'Ada', subscribe: 'true', when: '2026-10-19' });
+
+        expect(filled).toMatchObject({
+            body: [
+                { type: 'TextBlock', text: 'Your details' },
+                { type: 'Input.Text', value: 'Ada' },
+                { columns: [{ items: [{ type: 'Input.Toggle', value: 'true' }] }] },
+                { type: 'Input.Number' }
+            ],
+            actions: [{ card: { body: [{ type: 'Input.Date', value: '2026-10-19' }] } }]
+        });
+    });
+
+    it('leaves other elements and unsubmitted inputs alone', () => {
+        const filled = fillInputValues(card, { name: 'Ada' }) as typeof card;
+
+        expect(filled.body[0]).not.toHaveProperty('value');
+        expect(filled.body[3]).not.toHaveProperty('value');
+    });
+
+    it('does not modify the original card', () => {
+        const original = JSON.stringify(card);
+
+        fillInputValues(card, { name: 'Ada', age: 30 });
+
+        expect(JSON.stringify(card)).toBe(original);
+    });
+});
+
+describe('createHostConfig', () => {
+    const theme = { ...DEFAULT_THEME, primaryColor: '#6b2c91', surfaceColor: '#fafafa', fontFamily: 'Georgia', fontSize: 16 };
+
+    it('uses the theme font and scales card text sizes from it', () => {
+        const hostConfig = createHostConfig(theme);
+
+        expect(hostConfig.fontTypes?.default.fontFamily).toBe('Georgia');
+        expect(hostConfig.fontTypes?.default.fontSizes).toMatchObject({ small: 14, default: 16, large: 23 });
+    });
+
+    it('colors card containers and accents from the theme', () => {
+        const hostConfig = createHostConfig(theme);
+
+        const defaultStyle = hostConfig.containerStyles.getStyleByName('default');
+        expect(defaultStyle.backgroundColor).toBe('#fafafa');
+        expect(defaultStyle.foregroundColors.accent.default).toBe('#6b2c91');
+        expect(hostConfig.containerStyles.getStyleByName('accent').backgroundColor).toBe('#6b2c91');
+        expect(hostConfig.separator.lineColor).toBe(theme.dividerColor);
+    });
+});
@@ -4,23 +4,157 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React from 'react';
-import { AdaptiveCard, OpenUrlAction, SubmitAction } from 'adaptivecards';
+import { AdaptiveCard, ExecuteAction, Input, OpenUrlAction, SubmitAction } from 'adaptivecards';
 import { HostConfig } from 'adaptivecards';
 import { ShowCardActionMode, Orientation, ActionAlignment } from 'adaptivecards';
+import { ChatTheme, DEFAULT_THEME } from './utils/theme';
+import { createTranslator, Translate } from './utils/i18n';
 
 export interface CardAction {
-    type: string;
-    data?: any;
+    type: string;                       // 'submit' or 'execute'
+    data?: unknown;                     // Action data merged with the values of the card's inputs
     title?: string;
+    verb?: string;                      // Action.Execute verb
+    trigger?: 'manual' | 'automatic';   // 'automatic' when fired by the card's refresh
 }
 
+// Our user id in the conversation, matched against refresh.userIds
+const USER_ID = 'user';
+
+// A card refresh applies to everyone unless it names the users it is for
+export const isRefreshForUser = (userIds: string[] | undefined): boolean =>
+    !userIds || userIds.length === 0 || userIds.includes(USER_ID);
+
 export interface AdaptiveCardRendererProps {
     card: any;
     onAction: (action: CardAction) => void;
+    onValidationError?: (messages: string[]) => void;
+    readOnly?: boolean;             // Render the card but disable its inputs and actions
+    submittedValues?: unknown;      // Values the user submitted, shown in the read-only card
+    theme?: ChatTheme;
+    locale?: string;
 }
 
-const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({ card, onAction }) => {
+/**
+ * Host config matching the chat theme, so cards blend in with the surrounding UI
+ */
+export function createHostConfig(theme: ChatTheme): HostConfig {
+    const foregroundColors = {
+        default: {
+            default: theme.textColor,
+            subtle: theme.subtleTextColor
+        },
+        accent: {
+            default: theme.primaryColor,
+            subtle: theme.primaryColor
+        }
+    };
+
+    return new HostConfig({
+        fontFamily: theme.fontFamily,
+        fontTypes: {
+            default: {
+                fontFamily: theme.fontFamily,
+                fontSizes: {
+                    small: theme.fontSize - 2,
+                    default: theme.fontSize,
+                    medium: theme.fontSize + 3,
+                    large: theme.fontSize + 7,
+                    extraLarge: theme.fontSize + 12
+                }
+            },
+            // Must be present whenever fontTypes is set
+            monospace: {
+                fontFamily: "'Courier New', Courier, monospace"
+            }
+        },
+        spacing: {
+            small: 8,
+            default: 12,
+            medium: 16,
+            large: 20,
+            extraLarge: 24,
+            padding: 12
+        },
+        separator: {
+            lineThickness: 1,
+            lineColor: theme.dividerColor
+        },
+        actions: {
+            buttonSpacing: 8,
+            showCard: {
+                actionMode: ShowCardActionMode.Inline,
+                inlineTopMargin: 8
+            },
+            actionsOrientation: Orientation.Horizontal,
+            actionAlignment: ActionAlignment.Left,
+            maxActions: 10
+        },
+        containerStyles: {
+            default: {
+                backgroundColor: theme.surfaceColor,
+                foregroundColors
+            },
+            emphasis: {
+                backgroundColor: theme.backgroundColor,
+                foregroundColors
+            },
+            accent: {
+                backgroundColor: theme.primaryColor,
+                foregroundColors: {
+                    default: {
+                        default: theme.primaryTextColor,
+                        subtle: theme.primaryTextColor
+                    }
+                }
+            }
+        }
+    });
+}
+
+// Message for an invalid input whose card didn't provide an errorMessage
+export const getFallbackErrorMessage = (input: Input, t: Translate): string => {
+    const name = input.label || t('thisField');
+    return input.isSet() ? t('fieldInvalid', { name }) : t('fieldRequired', { name });
+};
+
+// Copy of the card JSON with each input's value set to what was submitted for it
+export const fillInputValues = (node: unknown, values: Record<string, unknown>): unknown => {
+    if (Array.isArray(node)) {
+        return node.map((item: unknown) => fillInputValues(item, values));
+    }
+    if (!node || typeof node !== 'object') {
+        return node;
+    }
+    const copy: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+        copy[key] = fillInputValues(value, values);
+    }
+    const { type, id } = copy;
+    if (typeof type === 'string' && type.startsWith('Input.') && typeof id === 'string' && id in values) {
+        copy.value = values[id];
+    }
+    return copy;
+};
+
+const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({
+    card,
+    onAction,
+    onValidationError,
+    readOnly = false,
+    submittedValues,
+    theme = DEFAULT_THEME,
+    locale = 'en-US'
+}) => {
+    const t = React.useMemo(() => createTranslator(locale), [locale]);
     const cardContainerRef = React.useRef<HTMLDivElement>(null);
+    const hasRefreshedRef = React.useRef(false);
+
+    // Keep the latest handler without re-rendering the card (and losing typed input) each time it changes
+    const onActionRef = React.useRef(onAction);
+    onActionRef.current = onAction;
+    const onValidationErrorRef = React.useRef(onValidationError);
+    onValidationErrorRef.current = onValidationError;
 
     React.useEffect(() => {
         if (!cardContainerRef.current || !card) return;
@@ -30,78 +164,77 @@ const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({ card, onAct
             const adaptiveCard = new AdaptiveCard();
 
             // Set host config for styling
-            adaptiveCard.hostConfig = new HostConfig({
-                fontFamily: "Segoe UI, Helvetica Neue, sans-serif",
-                spacing: {
-                    small: 8,
-                    default: 12,
-                    medium: 16,
-                    large: 20,
-                    extraLarge: 24,
-                    padding: 12
-                },
-                separator: {
-                    lineThickness: 1,
-                    lineColor: "#EEEEEE"
-                },
-                actions: {
-                    buttonSpacing: 8,
-                    showCard: {
-                        actionMode: ShowCardActionMode.Inline,
-                        inlineTopMargin: 8
-                    },
-                    actionsOrientation: Orientation.Horizontal,
-                    actionAlignment: ActionAlignment.Left,
-                    maxActions: 10
-                },
-                containerStyles: {
-                    default: {
-                        backgroundColor: "#FFFFFF",
-                        foregroundColors: {
-                            default: {
-                                default: "#333333",
-                                subtle: "#767676"
-                            },
-                            accent: {
-                                default: "#0078D4",
-                                subtle: "#0078D4"
-                            }
-                        }
-                    },
-                    emphasis: {
-                        backgroundColor: "#F3F2F1",
-                        foregroundColors: {
-                            default: {
-                                default: "#333333",
-                                subtle: "#767676"
-                            }
-                        }
-                    }
-                }
-            });
+            adaptiveCard.hostConfig = createHostConfig(theme);
 
             // Handle action execution
             adaptiveCard.onExecuteAction = (action) => {
                 console.log('🎯 Adaptive Card action executed:', action);
+                if (readOnly) {
+                    return;
+                }
 
                 if (action instanceof OpenUrlAction) {
-                    const openUrlAction = action as OpenUrlAction;
-                    window.open(openUrlAction.url, '_blank');
+                    window.open(action.url, '_blank');
+                } else if (action instanceof ExecuteAction) {
+                    if (action.validateInputs().length > 0) {
+                        console.warn('⚠️ Card execute blocked - inputs are not valid');
+                        return;
+                    }
+                    onActionRef.current({
+                        type: 'execute',
+                        verb: action.verb,
+                        data: action.data,
+                        title: action.title,
+                        trigger: 'manual'
+                    });
                 } else if (action instanceof SubmitAction) {
-                    const submitAction = action as SubmitAction;
-                    onAction({
+                    // By now the library has merged the input values into data;
+                    // check the referenced inputs again so an invalid form is never sent
+                    if (action.validateInputs().length > 0) {
+                        console.warn('⚠️ Card submit blocked - inputs are not valid');
+                        return;
+                    }
+                    onActionRef.current({
                         type: 'submit',
-                        data: submitAction.data,
-                        title: submitAction.title
+                        data: action.data,
+                        title: action.title
                     });
                 }
             };
 
             // Parse and render the card
-            adaptiveCard.parse(card);
+            const hasSubmittedValues = submittedValues !== null && typeof submittedValues === 'object';
+            adaptiveCard.parse(hasSubmittedValues ? fillInputValues(card, submittedValues as Record<string, unknown>) : card);
+
+            // Validate inputs before the library does, so invalid inputs get a message
+            // and can be reported; the library then highlights them and blocks the action
+            const authoredMessages = new Set(adaptiveCard.getAllInputs().filter(input => input.errorMessage));
+            for (const cardAction of adaptiveCard.getAllActions()) {
+                cardAction.onExecute = executed => {
+                    const invalidInputs = executed.validateInputs();
+                    if (invalidInputs.length === 0) {
+                        return;
+                    }
+                    for (const input of invalidInputs) {
+                        if (!authoredMessages.has(input)) {
+                            input.errorMessage = getFallbackErrorMessage(input, t);
+                        }
+                    }
+                    console.warn('⚠️ Card inputs are not valid:', invalidInputs.map(input => input.id));
+                    onValidationErrorRef.current?.(invalidInputs.map(input => input.errorMessage!));
+                };
+            }
+
             const renderedCard = adaptiveCard.render();
 
             if (renderedCard) {
+                if (readOnly) {
+                    renderedCard.querySelectorAll('input, textarea, select, button').forEach(element => {
+                        (element as HTMLInputElement).disabled = true;
+                    });
+                    renderedCard.setAttribute('aria-disabled', 'true');
+                }
+
                 // Clear previous content
                 cardContainerRef.current.innerHTML = '';
                 cardContainerRef.current.appendChild(renderedCard);
@@ -109,22 +242,57 @@ const AdaptiveCardRenderer: React.FC<AdaptiveCardRendererProps> = ({ card, onAct
             } else {
                 console.error('❌ Failed to render Adaptive Card');
             }
+
+            // Fetch the up-to-date (possibly user-specific) view once, when the card first shows
+            const refresh = adaptiveCard.refresh;
+            if (refresh?.action && isRefreshForUser(refresh.userIds) && !readOnly && !hasRefreshedRef.current) {
+                hasRefreshedRef.current = true;
+                console.log('🔄 Refreshing Adaptive Card:', refresh.action.verb);
+                onActionRef.current({
+                    type: 'execute',
+                    verb: refresh.action.verb,
+                    data: refresh.action.data,
+                    trigger: 'automatic'
+                });
+            }
         } catch (error) {
             console.error('❌ Error rendering Adaptive Card:', error);
             if (cardContainerRef.current) {
-                cardContainerRef.current.innerHTML = '<div style="color: red;">Error rendering card</div>';
+                const errorElement = document.createElement('div');
+                errorElement.style.color = theme.errorColor;
+                errorElement.textContent = t('cardRenderError');
+                cardContainerRef.current.replaceChildren(errorElement);
             }
         }
-    }, [card, onAction]);
+    }, [card, readOnly, submittedValues, theme, t]);
 
     return (
-        <div
-            ref={cardContainerRef}
-            style={{
-                margin: '8px 0',
-                maxWidth: '100%'
-            }}
-        />
+        <>
+            {/* Invalid input highlight - adaptivecards adds the class, but ships no styles */}
+            <style>
+                {`
+                .ac-input-validation-failed {
+                    border: 1px solid ${theme.errorColor} !important;
+                    outline: none;
+                }
+            `}
+            </style>
+            <div
+                ref={cardContainerRef}
+                style={{
+                    margin: '8px 0',
+                    maxWidth: '100%',
+                    borderRadius: `${theme.cornerRadius}px`,
+                    overflow: 'hidden',
+                    opacity: readOnly ? 0.7 : 1
+                }}
+            />
+            {submittedValues !== undefined && (
+                <div style={{ fontSize: '12px', color: theme.successColor, marginTop: '-4px' }}>
+                    ✓ {t('submitted')}
+                </div>
+            )}
+        </>
     );
 };
 
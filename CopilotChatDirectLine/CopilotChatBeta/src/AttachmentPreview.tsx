@@ -4,18 +4,26 @@
 
 import React from 'react';
 import { Attachment, getFileIcon, formatFileSize } from './useAttachments';
+import { ChatTheme, DEFAULT_THEME } from './utils/theme';
+import { createTranslator } from './utils/i18n';
 
 export interface AttachmentPreviewProps {
     attachments: Attachment[];
     onRemove: (id: string) => void;
     isProcessing?: boolean;
+    theme?: ChatTheme;
+    locale?: string;
 }
 
 const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
     attachments,
     onRemove,
-    isProcessing = false
+    isProcessing = false,
+    theme = DEFAULT_THEME,
+    locale = 'en-US'
 }) => {
+    const t = React.useMemo(() => createTranslator(locale), [locale]);
+
     if (attachments.length === 0 && !isProcessing) {
         return null;
     }
@@ -27,8 +35,8 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                 flexWrap: 'wrap',
                 gap: '8px',
                 padding: '8px 12px',
-                borderTop: '1px solid #e1dfdd',
-                backgroundColor: '#faf9f8',
+                borderTop: `1px solid ${theme.dividerColor}`,
+                backgroundColor: theme.backgroundColor,
                 maxHeight: '150px',
                 overflowY: 'auto'
             }}
@@ -40,15 +48,15 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                         alignItems: 'center',
                         gap: '8px',
                         padding: '8px 12px',
-                        backgroundColor: '#fff',
+                        backgroundColor: theme.surfaceColor,
                         borderRadius: '4px',
-                        border: '1px solid #e1dfdd',
+                        border: `1px solid ${theme.dividerColor}`,
                         fontSize: '13px',
-                        color: '#605e5c'
+                        color: theme.subtleTextColor
                     }}
                 >
                     <span style={{ animation: 'spin 1s linear infinite' }}>⏳</span>
-                    Processing...
+                    {t('processing')}
                 </div>
             )}
 
@@ -61,9 +69,9 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                         flexDirection: 'column',
                         alignItems: 'center',
                         padding: '8px',
-                        backgroundColor: '#fff',
+                        backgroundColor: theme.surfaceColor,
                         borderRadius: '6px',
-                        border: '1px solid #e1dfdd',
+                        border: `1px solid ${theme.dividerColor}`,
                         minWidth: '80px',
                         maxWidth: '100px'
                     }}
@@ -74,12 +82,12 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                         style={{
                             position: 'absolute',
                             top: '-6px',
-                            right: '-6px',
+                            insetInlineEnd: '-6px',
                             width: '20px',
                             height: '20px',
                             borderRadius: '50%',
-                            backgroundColor: '#d13438',
-                            color: '#fff',
+                            backgroundColor: theme.errorColor,
+                            color: theme.surfaceColor,
                             border: 'none',
                             cursor: 'pointer',
                             fontSize: '12px',
@@ -90,7 +98,7 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                             padding: 0,
                             lineHeight: 1
                         }}
-                        title="Remove attachment"
+                        title={t('removeAttachment')}
                     >
                         ×
                     </button>
@@ -105,7 +113,7 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                                 height: '60px',
                                 objectFit: 'cover',
                                 borderRadius: '4px',
-                                backgroundColor: '#f3f2f1'
+                                backgroundColor: theme.backgroundColor
                             }}
                         />
                     ) : (
@@ -117,7 +125,7 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                                 alignItems: 'center',
                                 justifyContent: 'center',
                                 fontSize: '28px',
-                                backgroundColor: '#f3f2f1',
+                                backgroundColor: theme.backgroundColor,
                                 borderRadius: '4px'
                             }}
                         >
@@ -130,7 +138,7 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                         style={{
                             marginTop: '4px',
                             fontSize: '11px',
-                            color: '#323130',
+                            color: theme.textColor,
                             textAlign: 'center',
                             overflow: 'hidden',
                             textOverflow: 'ellipsis',
@@ -149,7 +157,7 @@ const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
                     <div
                         style={{
                             fontSize: '10px',
-                            color: '#605e5c'
+                            color: theme.subtleTextColor
                         }}
                     >
                         {formatFileSize(attachment.size)}
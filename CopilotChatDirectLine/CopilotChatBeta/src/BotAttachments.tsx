@@ -0,0 +1,155 @@
+/**
+ * BotAttachments - Renders every attachment of a bot message as a stacked list or a carousel
+ */
+
+import React from 'react';
+import AdaptiveCardRenderer, { CardAction } from './AdaptiveCardRenderer';
+import RichCardRenderer from './RichCardRenderer';
+import { ActivityAttachment, DirectLineCardAction } from './services/CopilotChatService';
+import { ADAPTIVE_CARD_CONTENT_TYPE, AttachmentLayout } from './utils/activityMapper';
+import { getRichCardKind } from './utils/richCards';
+import { ChatTheme, DEFAULT_THEME } from './utils/theme';
+import { createTranslator, Translate } from './utils/i18n';
+
+export interface BotAttachmentsProps {
+    attachments: ActivityAttachment[];
+    layout?: AttachmentLayout;
+    onCardAction: (action: CardAction, attachmentIndex: number) => void;
+    onBotAction: (action: DirectLineCardAction) => void;
+    onValidationError?: (messages: string[]) => void;
+    cardSubmissions?: Record<number, unknown>;  // Submitted values by attachment index
+    readOnly?: boolean;                         // Lock every card in this message
+    theme?: ChatTheme;
+    locale?: string;
+}
+
+const renderAttachment = (
+    attachment: ActivityAttachment,
+    index: number,
+    onCardAction: (action: CardAction, attachmentIndex: number) => void,
+    onBotAction: (action: DirectLineCardAction) => void,
+    onValidationError: ((messages: string[]) => void) | undefined,
+    cardSubmissions: Record<number, unknown> | undefined,
+    readOnly: boolean,
+    theme: ChatTheme,
+    locale: string,
+    t: Translate
+): React.ReactNode => {
+    const { contentType, contentUrl, name } = attachment;
+
+    if (contentType === ADAPTIVE_CARD_CONTENT_TYPE) {
+        const isSubmitted = !!cardSubmissions && index in cardSubmissions;
+        return (
+            <AdaptiveCardRenderer
+                card={attachment.content}
+                onAction={action => onCardAction(action, index)}
+                onValidationError={onValidationError}
+                readOnly={readOnly || isSubmitted}
+                submittedValues={isSubmitted ? cardSubmissions[index] : undefined}
+                theme={theme}
+                locale={locale}
+            />
+        );
+    }
+
+    const richCardKind = getRichCardKind(contentType);
+    if (richCardKind) {
+        return <RichCardRenderer kind={richCardKind} content={attachment.content} onAction={onBotAction} theme={theme} locale={locale} />;
+    }
+
+    if (contentUrl && contentType.startsWith('image/')) {
+        return (
+            <img
+                src={contentUrl}
+                alt={name || t('image')}
+                style={{ maxWidth: '100%', borderRadius: `${theme.cornerRadius}px`, display: 'block' }}
+            />
+        );
+    }
+
+    if (contentUrl && contentType.startsWith('video/')) {
+        return <video src={contentUrl} controls style={{ maxWidth: '100%', borderRadius: `${theme.cornerRadius}px` }} />;
+    }
+
+    if (contentUrl && contentType.startsWith('audio/')) {
+        return <audio src={contentUrl} controls style={{ width: '100%' }} />;
+    }
+
+    if (contentUrl) {
+        return (
+            <a
+                href={contentUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={{ color: theme.primaryColor, fontSize: `${theme.fontSize}px` }}
+            >
+                📎 {name || t('downloadFile')}
+            </a>
+        );
+    }
+
+    console.log('⚠️ Unsupported attachment type:', contentType);
+    return null;
+};
+
+const BotAttachments: React.FC<BotAttachmentsProps> = ({
+    attachments,
+    layout = 'list',
+    onCardAction,
+    onBotAction,
+    onValidationError,
+    cardSubmissions,
+    readOnly = false,
+    theme = DEFAULT_THEME,
+    locale = 'en-US'
+}) => {
+    const t = React.useMemo(() => createTranslator(locale), [locale]);
+    const items = attachments
+        .map((attachment, index) => ({
+            key: `${attachment.contentType}-${index}`,
+            node: renderAttachment(attachment, index, onCardAction, onBotAction, onValidationError, cardSubmissions, readOnly, theme, locale, t)
+        }))
+        .filter(item => item.node !== null);
+
+    if (items.length === 0) {
+        return null;
+    }
+
+    // A single attachment needs no carousel chrome
+    if (layout === 'carousel' && items.length > 1) {
+        return (
+            <div
+                style={{
+                    display: 'flex',
+                    gap: '8px',
+                    overflowX: 'auto',
+                    scrollSnapType: 'x mandatory',
+                    paddingBottom: '4px'
+                }}
+            >
+                {items.map(item => (
+                    <div
+                        key={item.key}
+                        style={{
+                            flex: '0 0 85%',
+                            maxWidth: '320px',
+                            scrollSnapAlign: 'start'
+                        }}
+                    >
+                        {item.node}
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {items.map(item => (
+                <div key={item.key}>{item.node}</div>
+            ))}
+        </div>
+    );
+};
+
+export default BotAttachments;
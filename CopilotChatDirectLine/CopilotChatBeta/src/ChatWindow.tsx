@@ -2,15 +2,19 @@
  * ChatWindow - Main chat interface component
  */
 
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import React from 'react';
 import Markdown from 'react-markdown';
 import { useSpeak, getAvailableVoices, VOICE_PROFILES } from './useSpeak';
 import { useThinkingSound } from './useThinkingSound';
-import { useAttachments, Attachment } from './useAttachments';
+import { useBargeIn } from './useBargeIn';
+import { useWakeWord } from './useWakeWord';
+import { useSpeechLevel } from './useSpeechLevel';
+import { useAttachments, Attachment, DirectLineAttachment } from './useAttachments';
 import AttachmentPreview from './AttachmentPreview';
-import AdaptiveCardRenderer, { CardAction } from './AdaptiveCardRenderer';
+import { CardAction } from './AdaptiveCardRenderer';
+import BotAttachments from './BotAttachments';
 import DrivingModeModal from './DrivingModeModal';
+import SuggestedActions, { getActionTitle } from './SuggestedActions';
 import {
     saveSettings,
     loadSettings,
@@ -18,18 +22,29 @@ import {
     loadMessages,
     clearMessages,
     clearConversationState,
-    StoredMessage
+    saveWakePhraseModel,
+    loadWakePhraseModel,
+    StoredMessage,
+    MessageStatus
 } from './utils/storage';
-import { CopilotChatService } from './services/CopilotChatService';
-
-// Extend Window for speech recognition
-declare global {
-    interface Window {
-        SpeechRecognition: typeof SpeechRecognition;
-        webkitSpeechRecognition: typeof SpeechRecognition;
-        webkitAudioContext: typeof AudioContext;
-    }
-}
+import { CopilotChatService, Activity, ActivityAttachment, DirectLineCardAction } from './services/CopilotChatService';
+import { mapBotActivity, getCardReadout, AttachmentLayout, CardReadout, ADAPTIVE_CARD_CONTENT_TYPE } from './utils/activityMapper';
+import { expandCardTemplate } from './utils/cardTemplating';
+import { ChatTheme, DEFAULT_THEME } from './utils/theme';
+import {
+    createTranslator,
+    getLanguage,
+    getSpeechLocale,
+    isRtlLocale,
+    SPEECH_LANGUAGES,
+    Translate
+} from './utils/i18n';
+import { AuthError, DirectLineError, NetworkError, NotFoundError, ThrottledError } from './services/errors';
+import { createSpeechRecognizer, SpeechRecognizer, SpeechToTextProvider } from './services/speechRecognition';
+import { createWakePhraseModel, recordWakePhraseSample, WakePhraseModel } from './utils/wakeWord';
+import { normalizeUtterance, parseConfirmation, parseVoiceCommand, VoiceCommand } from './utils/voiceCommands';
+import { DEFAULT_UTTERANCE_FILTER, filterUtterance, isQuestion } from './utils/utteranceFilter';
+import { getAudioContextConstructor } from './utils/audioContext';
 
 // Message interface
 export interface Message {
@@ -38,10 +53,51 @@ export interface Message {
     isUser: boolean;
     timestamp: Date;
     speakText?: string;
-    adaptiveCard?: any;
+    botAttachments?: ActivityAttachment[];
+    attachmentLayout?: AttachmentLayout;
+    cardSubmissions?: Record<number, unknown>;  // Submitted card values by attachment index; those cards are read-only
     isSignInCard?: boolean;
     signInUrl?: string;
     attachments?: Array<{ name: string; type: string }>;
+    status?: MessageStatus;
+    activityId?: string;
+    outgoing?: { text: string; value?: unknown };   // Text and value sent, which can differ from the bubble
+    suggestedActions?: DirectLineCardAction[];
+    locale?: string;    // Language the bot replied in, used to pick the TTS voice
+}
+
+// Hide the typing indicator if the bot goes quiet for this long after a typing activity
+const TYPING_TIMEOUT_MS = 5000;
+
+// Give up waiting for a reply if the bot never starts typing
+const REPLY_TIMEOUT_MS = 20000;
+
+// Times the user records the wake phrase
+const WAKE_PHRASE_SAMPLES = 3;
+
+// How much "slower"/"faster" change the voice speed, and its limits
+const SPEECH_RATE_STEP = 0.15;
+const MIN_SPEECH_RATE = 0.7;
+const MAX_SPEECH_RATE = 1.6;
+
+// Universal Actions (Action.Execute) are sent as this invoke
+const ADAPTIVE_CARD_INVOKE_NAME = 'adaptiveCard/action';
+
+// Body of an adaptiveCard/action invoke response
+interface AdaptiveCardInvokeResponse {
+    statusCode?: number;
+    type?: string;      // Adaptive Card, message or error content type
+    value?: unknown;
+}
+
+// Card actions whose value is a URL to open rather than something to send
+const URL_ACTION_TYPES = ['openUrl', 'downloadFile', 'showImage', 'playAudio', 'playVideo'];
+
+// What was sent for a user message, kept so a failed send can be retried
+interface OutgoingPayload {
+    text: string;
+    attachments?: DirectLineAttachment[];
+    value?: unknown;
 }
 
 // Convert Message to StoredMessage for localStorage
@@ -50,10 +106,17 @@ const toStoredMessage = (msg: Message): StoredMessage => ({
     text: msg.text,
     isUser: msg.isUser,
     timestamp: msg.timestamp.toISOString(),
+    status: msg.status,
+    activityId: msg.activityId,
     speakText: msg.speakText,
-    adaptiveCard: msg.adaptiveCard,
+    botAttachments: msg.botAttachments,
+    attachmentLayout: msg.attachmentLayout,
+    cardSubmissions: msg.cardSubmissions,
     isSignInCard: msg.isSignInCard,
-    signInUrl: msg.signInUrl
+    signInUrl: msg.signInUrl,
+    outgoing: msg.outgoing,
+    suggestedActions: msg.suggestedActions,
+    locale: msg.locale
 });
 
 // Convert StoredMessage back to Message
@@ -62,12 +125,40 @@ const fromStoredMessage = (stored: StoredMessage): Message => ({
     text: stored.text,
     isUser: stored.isUser,
     timestamp: new Date(stored.timestamp),
+    // A send still in flight when the page unloaded never made it
+    status: stored.status === 'sending' ? 'failed' : stored.status,
+    activityId: stored.activityId,
     speakText: stored.speakText,
-    adaptiveCard: stored.adaptiveCard,
+    // Older versions stored a single adaptiveCard
+    botAttachments: stored.botAttachments ?? (stored.adaptiveCard
+        ? [{ contentType: ADAPTIVE_CARD_CONTENT_TYPE, content: stored.adaptiveCard }]
+        : undefined),
+    attachmentLayout: stored.attachmentLayout,
+    cardSubmissions: stored.cardSubmissions,
     isSignInCard: stored.isSignInCard,
-    signInUrl: stored.signInUrl
+    signInUrl: stored.signInUrl,
+    outgoing: stored.outgoing,
+    suggestedActions: stored.suggestedActions,
+    locale: stored.locale
 });
 
+// User-facing description of a failed send, by error type
+const describeSendError = (error: unknown, t: Translate): string => {
+    if (error instanceof AuthError) {
+        return t('sendErrorAuth');
+    }
+    if (error instanceof ThrottledError) {
+        return t('sendErrorThrottled');
+    }
+    if (error instanceof NetworkError) {
+        return t('sendErrorNetwork');
+    }
+    if (error instanceof NotFoundError) {
+        return t('sendErrorNotFound');
+    }
+    return t('sendErrorGeneric');
+};
+
 export interface ChatWindowProps {
     chatService: CopilotChatService;
     speechKey?: string;
@@ -75,10 +166,18 @@ export interface ChatWindowProps {
     openAIEndpoint?: string;
     openAIKey?: string;
     openAIDeployment?: string;
+    whisperDeployment?: string;
+    speechToTextProvider?: SpeechToTextProvider | 'auto';
+    wakePhrase?: string;    // Phrase that starts listening in Driving Mode; recorded by the user in settings
+    autoSendDelay?: number;         // Pause before a Driving Mode message is sent, in ms
+    confirmBeforeSend?: boolean;    // Read Driving Mode messages back and wait for a yes before sending
     isReconnected?: boolean;
     modalTitle?: string;
     enableAttachments?: boolean;
     attachmentIcon?: 'paperclip' | 'camera' | 'document' | 'plus';
+    latestCardOnly?: boolean;
+    theme?: ChatTheme;
+    locale?: string;    // BCP 47 locale for UI strings, speech recognition and text direction
 }
 
 const ChatWindow: React.FC<ChatWindowProps> = ({
@@ -88,20 +187,36 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     openAIEndpoint,
     openAIKey,
     openAIDeployment = 'tts',
+    whisperDeployment = 'whisper',
+    speechToTextProvider = 'auto',
+    wakePhrase,
+    autoSendDelay = 2000,
+    confirmBeforeSend = false,
     isReconnected = false,
     modalTitle,
     enableAttachments = false,
-    attachmentIcon = 'paperclip'
+    attachmentIcon = 'paperclip',
+    latestCardOnly = false,
+    theme = DEFAULT_THEME,
+    locale = 'en-US'
 }) => {
+    const t = React.useMemo(() => createTranslator(locale), [locale]);
+
     // Load saved settings on initialization
     const savedSettings = React.useMemo(() => loadSettings(), []);
 
-    // Load saved messages if reconnected
+    // Load saved messages if reconnected; a new conversation keeps only messages still queued for it
     const savedMessages = React.useMemo(() => {
+        const queuedIds = new Set(chatService.getOutboxIds());
         if (isReconnected) {
-            return loadMessages().map(fromStoredMessage);
+            // Queued messages whose outbox entry is gone can no longer be delivered
+            return loadMessages()
+                .map(fromStoredMessage)
+                .map(msg => (msg.status === 'queued' && !queuedIds.has(msg.id) ? { ...msg, status: 'failed' as const } : msg));
         }
-        return [];
+        return loadMessages()
+            .map(fromStoredMessage)
+            .filter(msg => msg.status === 'queued' && queuedIds.has(msg.id));
     }, [isReconnected]);
 
     const [messages, setMessages] = React.useState<Message[]>(savedMessages);
@@ -114,6 +229,14 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     const [drivingMode, setDrivingMode] = React.useState(false);
     const [audioUnlocked, setAudioUnlocked] = React.useState(savedSettings.audioUnlocked);
     const [thinkingSoundEnabled, setThinkingSoundEnabled] = React.useState(savedSettings.thinkingSoundEnabled);
+    const [recognitionLanguage, setRecognitionLanguage] = React.useState(savedSettings.recognitionLanguage);
+    const [wakePhraseEnabled, setWakePhraseEnabled] = React.useState(savedSettings.wakePhraseEnabled);
+    const [wakePhraseModel, setWakePhraseModel] = React.useState<WakePhraseModel | null>(null);
+    const [wakePhraseSample, setWakePhraseSample] = React.useState<number | null>(null);  // Sample being recorded
+    const [wakePhraseError, setWakePhraseError] = React.useState(false);
+    const [speechRate, setSpeechRate] = React.useState(savedSettings.speechRate);
+    const [utteranceFilter, setUtteranceFilter] = React.useState(savedSettings.utteranceFilter);
+    const [isDrivingModeMuted, setIsDrivingModeMuted] = React.useState(false);  // "mute" said in Driving Mode
     const [isPlaying, setIsPlaying] = React.useState(false);
     const [isPaused, setIsPaused] = React.useState(false);
     const [showAudioMenu, setShowAudioMenu] = React.useState(false);
@@ -122,8 +245,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     const [lastUserInput, setLastUserInput] = React.useState('');
     const [lastBotResponse, setLastBotResponse] = React.useState('');
     const [attachmentError, setAttachmentError] = React.useState<string | null>(null);
+    const [sendError, setSendError] = React.useState<string | null>(null);
+    const [outboxCount, setOutboxCount] = React.useState(() => chatService.getOutboxIds().length);
+    const [unsavedOutboxIds, setUnsavedOutboxIds] = React.useState<string[]>([]);
+    const [isOnline, setIsOnline] = React.useState(() => navigator.onLine);
 
-    const recognitionRef = React.useRef<SpeechRecognition | null>(null);
+    const recognitionRef = React.useRef<SpeechRecognizer | null>(null);
     const autoSendTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
     const messagesEndRef = React.useRef<HTMLDivElement>(null);
     const audioMenuRef = React.useRef<HTMLDivElement>(null);
@@ -132,6 +259,14 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     const spokenMessageIds = React.useRef(new Set<string>());
     const isSpeakingRef = React.useRef(false);
     const cancelSpeechRef = React.useRef(false);
+    const outgoingPayloadsRef = React.useRef(new Map<string, OutgoingPayload>());
+    const voiceCommandRef = React.useRef<(command: VoiceCommand, transcript: string) => boolean>(() => false);
+    const spokenMessageRef = React.useRef<(transcript: string) => void>(() => undefined);
+    const pendingSendRef = React.useRef<string | null>(null);  // Message read back and awaiting yes/no/edit
+    const rateAnnouncementRef = React.useRef<string | null>(null);
+    const utteranceFilterRef = React.useRef(utteranceFilter);
+    utteranceFilterRef.current = utteranceFilter;
+    const expectsShortAnswerRef = React.useRef(false);
 
     // Detect if running on iOS/mobile
     const isMobile = React.useMemo(() => /iPhone|iPad|iPod|Android/i.test(navigator.userAgent), []);
@@ -141,10 +276,22 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     const hasAzureSpeech = !!(speechKey && speechRegion);
     const hasOpenAI = !!(openAIEndpoint && openAIKey);
     const availableVoices = React.useMemo(
-        () => getAvailableVoices(hasAzureSpeech, hasOpenAI),
-        [hasAzureSpeech, hasOpenAI]
+        () => getAvailableVoices(hasAzureSpeech, hasOpenAI, locale),
+        [hasAzureSpeech, hasOpenAI, locale]
     );
 
+    // A saved Azure voice for another language is swapped for one that speaks the chat language
+    React.useEffect(() => {
+        const profileLocale = VOICE_PROFILES[voiceProfile]?.locale;
+        if (profileLocale && getLanguage(profileLocale) !== getLanguage(locale)) {
+            const replacement = availableVoices.find(v => v.provider === 'azure');
+            if (replacement) {
+                console.log('🌐 Switching voice to match chat language:', replacement.id);
+                setVoiceProfile(replacement.id);
+            }
+        }
+    }, [availableVoices, locale]);
+
     const { speak, stop, pause, resume } = useSpeak({
         speechKey,
         speechRegion,
@@ -152,7 +299,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         openAIKey,
         openAIDeployment,
         voiceProfile,
-        audioUnlocked
+        audioUnlocked,
+        locale,
+        rate: speechRate
     });
 
     // Use a ref for speak to avoid effect re-runs when speak function changes
@@ -173,7 +322,48 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         hasAttachments
     } = useAttachments();
 
+    // isTyping follows the bot's typing activities; isAwaitingReply covers the gap after a send
     const [isTyping, setIsTyping] = React.useState(false);
+    const [isAwaitingReply, setIsAwaitingReply] = React.useState(false);
+    const typingTimerRef = React.useRef<number | null>(null);
+    const isWaitingForBot = isTyping || isAwaitingReply;
+
+    const restartTypingTimer = (delay: number): void => {
+        if (typingTimerRef.current) {
+            clearTimeout(typingTimerRef.current);
+        }
+        typingTimerRef.current = window.setTimeout(() => {
+            console.log('⌛ Bot stopped typing without replying');
+            stopWaitingForBot();
+        }, delay);
+    };
+
+    const stopWaitingForBot = (): void => {
+        if (typingTimerRef.current) {
+            clearTimeout(typingTimerRef.current);
+            typingTimerRef.current = null;
+        }
+        setIsTyping(false);
+        setIsAwaitingReply(false);
+    };
+
+    // The user sent something; wait for the bot without showing typing dots yet
+    const waitForReply = (): void => {
+        setIsAwaitingReply(true);
+        restartTypingTimer(REPLY_TIMEOUT_MS);
+    };
+
+    // The bot sent a typing activity; show it until a reply or the typing timeout
+    const showBotTyping = (): void => {
+        setIsTyping(true);
+        restartTypingTimer(TYPING_TIMEOUT_MS);
+    };
+
+    React.useEffect(() => () => {
+        if (typingTimerRef.current) {
+            clearTimeout(typingTimerRef.current);
+        }
+    }, []);
 
     // Get attachment icon based on setting
     const getAttachmentIconEmoji = (): string => {
@@ -203,9 +393,37 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
             isMuted,
             voiceProfile,
             audioUnlocked,
-            thinkingSoundEnabled
+            thinkingSoundEnabled,
+            recognitionLanguage,
+            wakePhraseEnabled,
+            speechRate,
+            utteranceFilter
         });
-    }, [isMuted, voiceProfile, audioUnlocked, thinkingSoundEnabled]);
+    }, [
+        isMuted,
+        voiceProfile,
+        audioUnlocked,
+        thinkingSoundEnabled,
+        recognitionLanguage,
+        wakePhraseEnabled,
+        speechRate,
+        utteranceFilter
+    ]);
+
+    // A spoken "mute" and an unconfirmed message only last for this Driving Mode session
+    React.useEffect(() => {
+        if (!drivingMode) {
+            setIsDrivingModeMuted(false);
+            pendingSendRef.current = null;
+        }
+    }, [drivingMode]);
+
+    // Samples recorded for a different phrase don't count
+    React.useEffect(() => {
+        setWakePhraseModel(wakePhrase ? loadWakePhraseModel(wakePhrase) : null);
+    }, [wakePhrase]);
+
+    const isWakePhraseActive = !!wakePhrase && wakePhraseEnabled && !!wakePhraseModel;
 
     // Save messages when they change
     React.useEffect(() => {
@@ -214,6 +432,36 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }
     }, [messages]);
 
+    // Track queued messages as the outbox drains
+    React.useEffect(() => {
+        chatService.setOutboxCallback(event => {
+            setOutboxCount(event.pending);
+            setUnsavedOutboxIds(chatService.getUnsavedOutboxIds());
+            if (event.type === 'sent') {
+                updateMessage(event.id, { status: 'sent', activityId: event.activityId });
+                waitForReply();
+            } else if (event.type === 'failed') {
+                updateMessage(event.id, { status: 'failed' });
+                setSendError(describeSendError(event.error, t));
+            }
+        });
+        setOutboxCount(chatService.getOutboxIds().length);
+        setUnsavedOutboxIds(chatService.getUnsavedOutboxIds());
+    }, [chatService, t]);
+
+    // Track connectivity for the outbox banner
+    React.useEffect(() => {
+        const handleOnline = (): void => setIsOnline(true);
+        const handleOffline = (): void => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        setIsOnline(navigator.onLine);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
     // Auto-scroll to bottom
     React.useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -230,7 +478,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }
     }, []);
 
-    // Force-stop mic when bot starts speaking
+    // Force-stop recognition when bot starts speaking - useBargeIn listens for interruptions instead
     React.useEffect(() => {
         if (drivingMode && isPlaying && recognitionRef.current) {
             console.log('🎤🛑 Driving mode: isPlaying=true, force-stopping mic to prevent interruption');
@@ -248,11 +496,11 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }
     }, [drivingMode, isPlaying]);
 
-    // Auto-start listening when driving mode is enabled and not busy
+    // Auto-start listening when driving mode is enabled and not busy - the wake phrase does this instead when on
     React.useEffect(() => {
-        if (drivingMode && !isListening && !isPlaying && !isSending && !isTyping && recognitionRef.current) {
+        if (drivingMode && !isWakePhraseActive && !isListening && !isPlaying && !isSending && !isWaitingForBot && recognitionRef.current) {
             const startTimer = setTimeout(() => {
-                if (drivingMode && !isListening && !isPlaying && !isSending && !isTyping) {
+                if (drivingMode && !isListening && !isPlaying && !isSending && !isWaitingForBot) {
                     console.log('🚗 Driving mode: Auto-starting mic...');
                     try {
                         setTranscribedText('');
@@ -265,7 +513,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
             }, 500);
             return () => clearTimeout(startTimer);
         }
-    }, [drivingMode, isListening, isPlaying, isSending, isTyping]);
+    }, [drivingMode, isWakePhraseActive, isListening, isPlaying, isSending, isWaitingForBot]);
 
     // Trigger Conversation Start on mount
     React.useEffect(() => {
@@ -284,264 +532,227 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }
     }, [chatService]);
 
-    // Poll for new messages
+    // Subscribe to bot activities pushed by the chat service
     React.useEffect(() => {
-        const pollMessages = async () => {
-            try {
-                const activities = await chatService.getMessages();
-                console.log('🔄 Polling - Received activities:', activities.length, 'activities');
-
-                const newMessages = activities
-                    .filter(activity => {
-                        const messageId = activity.id || '';
-                        if (seenMessageIds.current.has(messageId)) {
-                            console.log('Skipping duplicate message:', messageId);
-                            return false;
-                        }
-                        seenMessageIds.current.add(messageId);
-                        return true;
-                    })
-                    .map(activity => {
-                        console.log('Processing activity:', {
-                            id: activity.id,
-                            text: activity.text,
-                            attachments: activity.attachments
-                        });
-
-                        let messageText = activity.text || '';
-                        let signInUrl: string | undefined;
-                        let isSignInCard = false;
-                        let adaptiveCard: any = null;
-                        let speakText = '';
-
-                        if (activity.attachments && activity.attachments.length > 0) {
-                            const attachment = activity.attachments[0];
-                            console.log('Attachment detected:', attachment.contentType);
-
-                            if (
-                                attachment.contentType === 'application/vnd.microsoft.card.oauth' ||
-                                attachment.contentType === 'application/vnd.microsoft.card.signin'
-                            ) {
-                                isSignInCard = true;
-                                messageText = 'Authentication required';
-                                if (attachment.content?.buttons && attachment.content.buttons.length > 0) {
-                                    signInUrl = attachment.content.buttons[0].value;
-                                    console.log('OAuth card detected, sign-in URL:', signInUrl);
-                                }
-                            } else if (
-                                attachment.contentType === 'application/vnd.microsoft.card.adaptive' &&
-                                attachment.content
-                            ) {
-                                adaptiveCard = attachment.content;
-                                console.log('🎴 Adaptive Card detected:', adaptiveCard);
-
-                                if (adaptiveCard.speak) {
-                                    speakText = adaptiveCard.speak;
-                                    console.log('🗣️ Using card speak property:', speakText);
-                                } else if (adaptiveCard.body && adaptiveCard.body.length > 0) {
-                                    speakText = adaptiveCard.body
-                                        .map((item: any) => item.text || '')
-                                        .filter((text: string) => text)
-                                        .join('. ');
-                                    console.log('🗣️ Extracted text from card body:', speakText);
-                                }
+        const handleActivities = (activities: Activity[]): void => {
+            console.log('📨 Stream - Received activities:', activities.length, 'activities');
+
+            // Typing only matters if nothing from the bot follows it in this batch
+            const lastTyping = activities.map(a => a.type).lastIndexOf('typing');
+            const lastMessage = activities.map(a => a.type).lastIndexOf('message');
+            if (lastTyping > lastMessage) {
+                showBotTyping();
+            }
 
-                                if (!messageText && adaptiveCard.body && adaptiveCard.body.length > 0) {
-                                    messageText = adaptiveCard.body
-                                        .map((item: any) => item.text || '')
-                                        .filter((text: string) => text)
-                                        .join(' ');
-                                }
-                            }
+            const newMessages = activities
+                .filter(activity => activity.type === 'message')
+                .filter(activity => {
+                    const messageId = activity.id || '';
+                    if (seenMessageIds.current.has(messageId)) {
+                        console.log('Skipping duplicate message:', messageId);
+                        return false;
+                    }
+                    seenMessageIds.current.add(messageId);
+                    return true;
+                })
+                .map(activity => {
+                    console.log('Processing activity:', {
+                        id: activity.id,
+                        text: activity.text,
+                        attachments: activity.attachments
+                    });
+
+                    const mapped = mapBotActivity(activity, t);
+                    let speakText = mapped.speakText;
+
+                    console.log('Mapped message:', {
+                        id: activity.id,
+                        text: mapped.text,
+                        isSignInCard: mapped.isSignInCard,
+                        attachmentTypes: mapped.attachments.map(a => a.contentType),
+                        attachmentLayout: mapped.attachmentLayout,
+                        speakText
+                    });
+
+                    const suggestedActions = activity.suggestedActions?.actions;
+                    if (drivingMode && suggestedActions && suggestedActions.length > 0) {
+                        const choices = suggestedActions
+                            .filter(action => action.type !== 'openUrl')
+                            .map(getActionTitle)
+                            .filter(title => title);
+                        if (choices.length > 0) {
+                            speakText = `${speakText} ${t('youCanSay', { choices: choices.join(', ') })}`;
                         }
+                    }
 
-                        console.log('Mapped message:', {
-                            id: activity.id,
-                            text: messageText,
-                            isSignInCard,
-                            hasAdaptiveCard: !!adaptiveCard,
-                            speakText
-                        });
-
-                        return {
-                            id: activity.id || Math.random().toString(),
-                            text: messageText,
-                            isUser: false,
-                            timestamp: activity.timestamp ? new Date(activity.timestamp) : new Date(),
-                            signInUrl,
-                            isSignInCard,
-                            adaptiveCard,
-                            speakText: speakText || messageText
-                        };
-                    })
-                    .filter(msg => {
-                        const hasContent = msg.text || msg.isSignInCard || msg.adaptiveCard;
-                        console.log('Filter check:', {
-                            id: msg.id,
-                            hasContent,
-                            text: msg.text,
-                            isSignInCard: msg.isSignInCard,
-                            hasAdaptiveCard: !!msg.adaptiveCard
-                        });
-                        return hasContent;
+                    return {
+                        id: activity.id || Math.random().toString(),
+                        text: mapped.text,
+                        isUser: false,
+                        timestamp: activity.timestamp ? new Date(activity.timestamp) : new Date(),
+                        signInUrl: mapped.signInUrl,
+                        isSignInCard: mapped.isSignInCard,
+                        botAttachments: mapped.attachments.length > 0 ? mapped.attachments : undefined,
+                        attachmentLayout: mapped.attachmentLayout,
+                        speakText,
+                        suggestedActions,
+                        locale: activity.locale
+                    };
+                })
+                .filter(msg => {
+                    const hasContent = msg.text || msg.isSignInCard || msg.botAttachments;
+                    console.log('Filter check:', {
+                        id: msg.id,
+                        hasContent,
+                        text: msg.text,
+                        isSignInCard: msg.isSignInCard,
+                        attachmentCount: msg.botAttachments?.length || 0
                     });
+                    return hasContent;
+                });
 
-                if (newMessages.length > 0) {
-                    console.log('✅ Adding', newMessages.length, 'new messages to state');
-                    setIsTyping(false);
-                    setMessages(prev => [...prev, ...newMessages]);
+            if (newMessages.length > 0) {
+                console.log('✅ Adding', newMessages.length, 'new messages to state');
+                if (lastTyping < lastMessage) {
+                    stopWaitingForBot();
+                }
+                setMessages(prev => [...prev, ...newMessages]);
 
-                    const lastBotMsg = newMessages[newMessages.length - 1];
-                    if (lastBotMsg && lastBotMsg.speakText) {
-                        setLastBotResponse(lastBotMsg.speakText);
-                    }
+                const lastBotMsg = newMessages[newMessages.length - 1];
+                if (lastBotMsg && lastBotMsg.speakText) {
+                    setLastBotResponse(lastBotMsg.speakText);
+                }
 
-                    console.log('🔊 Voice status - isMuted:', isMuted, 'drivingMode:', drivingMode, 'speechKey:', !!speechKey);
-                    const shouldSpeak = !isMuted || drivingMode;
+                console.log('🔊 Voice status - isMuted:', isMuted, 'drivingMode:', drivingMode, 'speechKey:', !!speechKey);
+                const shouldSpeak = drivingMode ? !isDrivingModeMuted : !isMuted;
 
-                    if (shouldSpeak) {
-                        const unspokenMessages: Message[] = [];
-                        for (const msg of newMessages) {
-                            if (msg.speakText && !spokenMessageIds.current.has(msg.id)) {
-                                spokenMessageIds.current.add(msg.id);
-                                unspokenMessages.push(msg);
-                            }
+                if (shouldSpeak) {
+                    const unspokenMessages: Message[] = [];
+                    for (const msg of newMessages) {
+                        if (msg.speakText && !spokenMessageIds.current.has(msg.id)) {
+                            spokenMessageIds.current.add(msg.id);
+                            unspokenMessages.push(msg);
                         }
+                    }
 
-                        if (unspokenMessages.length === 0) {
-                            console.log('⏭️ All messages already spoken, skipping');
-                            return;
-                        }
+                    if (unspokenMessages.length === 0) {
+                        console.log('⏭️ All messages already spoken, skipping');
+                        return;
+                    }
 
-                        if (isSpeakingRef.current) {
-                            console.log('⏭️ Already speaking, skipping duplicate speak call (messages already marked)');
-                            return;
-                        }
+                    if (isSpeakingRef.current) {
+                        console.log('⏭️ Already speaking, skipping duplicate speak call (messages already marked)');
+                        return;
+                    }
 
-                        isSpeakingRef.current = true;
-                        console.log('🔒 Speaking lock acquired');
-
-                        (async () => {
-                            try {
-                                if (drivingMode && recognitionRef.current) {
-                                    console.log('🎤🔇 Driving mode: Stopping mic while bot speaks to prevent interruption');
-                                    try {
-                                        recognitionRef.current.stop();
-                                    } catch (e) {
-                                        // Already stopped
-                                    }
-                                    setIsListening(false);
-                                    if (autoSendTimerRef.current) {
-                                        clearTimeout(autoSendTimerRef.current);
-                                        autoSendTimerRef.current = null;
-                                    }
+                    isSpeakingRef.current = true;
+                    console.log('🔒 Speaking lock acquired');
+
+                    (async () => {
+                        try {
+                            if (drivingMode && recognitionRef.current) {
+                                console.log('🎤🔇 Driving mode: Stopping mic while bot speaks to prevent interruption');
+                                try {
+                                    recognitionRef.current.stop();
+                                } catch (e) {
+                                    // Already stopped
                                 }
+                                setIsListening(false);
+                                if (autoSendTimerRef.current) {
+                                    clearTimeout(autoSendTimerRef.current);
+                                    autoSendTimerRef.current = null;
+                                }
+                            }
 
-                                setIsPlaying(true);
-
-                                for (const msg of unspokenMessages) {
-                                    if (cancelSpeechRef.current) {
-                                        console.log('⏹️ Speech cancelled - stop was pressed');
-                                        break;
-                                    }
-                                    console.log('🗣️ Speaking message:', msg.speakText!.substring(0, 50) + '...');
-                                    setLastBotResponse(msg.speakText!);
-                                    try {
-                                        await speakRef.current(msg.speakText!);
-                                    } catch (error) {
-                                        console.error('❌ Speech failed:', error);
-                                    }
+                            setIsPlaying(true);
+
+                            for (const msg of unspokenMessages) {
+                                if (cancelSpeechRef.current) {
+                                    console.log('⏹️ Speech cancelled - stop was pressed');
+                                    break;
                                 }
-                            } finally {
-                                setIsPlaying(false);
-                                isSpeakingRef.current = false;
-                                console.log('🔓 Speaking lock released');
-
-                                if (drivingMode && !cancelSpeechRef.current) {
-                                    console.log('🚗 Driving mode: Auto-restarting listening after response');
-                                    setTimeout(() => {
-                                        handleDrivingModeStart();
-                                    }, 1000);
+                                console.log('🗣️ Speaking message:', msg.speakText!.substring(0, 50) + '...');
+                                setLastBotResponse(msg.speakText!);
+                                try {
+                                    await speakRef.current(msg.speakText!, msg.locale);
+                                } catch (error) {
+                                    console.error('❌ Speech failed:', error);
                                 }
                             }
-                        })();
-                    } else {
-                        console.log('🔇 Voice muted, skipping speak');
-                    }
+                        } finally {
+                            setIsPlaying(false);
+                            isSpeakingRef.current = false;
+                            console.log('🔓 Speaking lock released');
+
+                            if (drivingMode && !cancelSpeechRef.current) {
+                                console.log('🚗 Driving mode: Auto-restarting listening after response');
+                                setTimeout(() => {
+                                    handleDrivingModeStart();
+                                }, 1000);
+                            }
+                        }
+                    })();
+                } else {
+                    console.log('🔇 Voice muted, skipping speak');
                 }
-            } catch (error) {
-                console.error('Failed to poll messages:', error);
             }
         };
 
-        const interval = setInterval(pollMessages, 3000);
-        return () => clearInterval(interval);
-    }, [chatService, isMuted, drivingMode]);
+        return chatService.subscribe(handleActivities);
+    }, [chatService, isMuted, isDrivingModeMuted, drivingMode, t]);
 
     // Initialize speech recognition
     React.useEffect(() => {
-        const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-        if (SpeechRecognition) {
-            recognitionRef.current = new SpeechRecognition();
-            recognitionRef.current.continuous = false;
+        recognitionRef.current = createSpeechRecognizer({
+            provider: speechToTextProvider,
+            speechKey,
+            speechRegion,
+            openAIEndpoint,
+            openAIKey,
+            whisperDeployment
+        });
+        if (recognitionRef.current) {
             recognitionRef.current.interimResults = drivingMode;
-            recognitionRef.current.lang = 'en-US';
-            recognitionRef.current.maxAlternatives = 1;
-
-            recognitionRef.current.onresult = (event) => {
-                const transcript = event.results[0][0].transcript;
-                const isFinal = event.results[0].isFinal;
-                const confidence = event.results[0][0].confidence;
-
-                const noiseWords = ['no', 'oh', 'uh', 'um', 'ah', 'huh', 'hmm', 'yeah', 'the', 'a', 'i'];
-                const trimmedTranscript = transcript.trim().toLowerCase();
-                const isLikelyNoise =
-                    noiseWords.includes(trimmedTranscript) ||
-                    trimmedTranscript.length < 3 ||
-                    (confidence !== undefined && confidence < 0.5);
+            recognitionRef.current.lang = recognitionLanguage || getSpeechLocale(locale);
 
+            recognitionRef.current.onresult = ({ transcript, isFinal, confidence }) => {
                 if (drivingMode) {
+                    const speechLanguage = recognitionLanguage || locale;
+                    const command = isFinal ? parseVoiceCommand(transcript, speechLanguage) : null;
+                    // Commands and answers to a question or a pending confirmation may be a single word
+                    const verdict = filterUtterance(
+                        transcript,
+                        isFinal ? confidence : undefined,   // Interim confidence is unreliable
+                        {
+                            expectsShortAnswer: !!command || expectsShortAnswerRef.current || pendingSendRef.current !== null,
+                            peakLevel: isFinal ? getSpeechLevel() : null,
+                            locale: speechLanguage
+                        },
+                        utteranceFilterRef.current
+                    );
+
                     if (!isFinal) {
-                        if (!isLikelyNoise || transcript.length > 5) {
+                        if (verdict.accepted || transcript.length > 5) {
                             setTranscribedText(transcript);
                         }
                     } else {
-                        if (isLikelyNoise) {
-                            console.log('🚗 Driving mode: Ignoring likely noise:', transcript, 'confidence:', confidence);
+                        if (!verdict.accepted) {
+                            console.log('🚗 Driving mode: Ignoring utterance:', transcript, 'reason:', verdict.reason, 'confidence:', confidence);
+                            setTranscribedText('');
+                            return;
+                        }
+
+                        if (command && voiceCommandRef.current(command, transcript)) {
+                            console.log('🚗 Driving mode: Voice command:', command);
+                            setIsListening(false);
                             setTranscribedText('');
                             return;
                         }
 
                         console.log('🚗 Driving mode: Final transcript received:', transcript, 'confidence:', confidence);
-                        setInputText(transcript);
-                        setLastUserInput(transcript);
                         setIsListening(false);
                         setTranscribedText('');
-
-                        if (autoSendTimerRef.current) {
-                            clearTimeout(autoSendTimerRef.current);
-                        }
-
-                        autoSendTimerRef.current = setTimeout(() => {
-                            console.log('🚗 Driving mode: Auto-sending message:', transcript);
-                            if (recognitionRef.current) {
-                                try {
-                                    recognitionRef.current.stop();
-                                } catch (e) {
-                                    // Already stopped
-                                }
-                            }
-                            setIsListening(false);
-                            setIsSending(true);
-                            void sendMessage(transcript)
-                                .catch(error => {
-                                    console.error('❌ Failed to send message:', error);
-                                })
-                                .finally(() => {
-                                    setIsSending(false);
-                                    setInputText('');
-                                });
-                        }, 2000);
+                        spokenMessageRef.current(transcript);
                     }
                 } else {
                     setInputText(transcript);
@@ -549,8 +760,8 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 }
             };
 
-            recognitionRef.current.onerror = (event) => {
-                console.error('Speech recognition error:', event.error);
+            recognitionRef.current.onerror = (error) => {
+                console.error('Speech recognition error:', error);
                 setIsListening(false);
                 setTranscribedText('');
             };
@@ -565,22 +776,45 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
         return () => {
             if (recognitionRef.current) {
-                recognitionRef.current.stop();
+                // Discard rather than stop, so a recording provider doesn't transcribe after teardown
+                recognitionRef.current.abort();
             }
             if (autoSendTimerRef.current) {
                 clearTimeout(autoSendTimerRef.current);
             }
         };
-    }, [drivingMode]);
+    }, [
+        drivingMode,
+        locale,
+        recognitionLanguage,
+        speechToTextProvider,
+        speechKey,
+        speechRegion,
+        openAIEndpoint,
+        openAIKey,
+        whisperDeployment
+    ]);
 
     const sendMessage = async (text: string, withAttachments: boolean = false): Promise<void> => {
         if ((!text.trim() && !withAttachments) || isSending) return;
         if (withAttachments && !hasAttachments) return;
 
-        setLastUserInput(text || 'Sent attachments');
+        // Typing or saying a chip's title picks that chip, so postBack values still reach the bot
+        const matchedAction = !withAttachments && suggestedActions.find(
+            action => getActionTitle(action).toLowerCase() === text.trim().toLowerCase()
+        );
+        if (matchedAction && matchedAction.type !== 'openUrl') {
+            setInputText('');
+            setTranscribedText('');
+            await handleBotAction(matchedAction);
+            return;
+        }
+
+        setLastUserInput(text || t('sentAttachments'));
         setTranscribedText('');
         setAttachmentError(null);
-        setIsTyping(true);
+        setSendError(null);
+        waitForReply();
 
         const attachmentInfo = withAttachments && hasAttachments
             ? attachments.map(a => ({ name: a.name, type: a.type }))
@@ -588,35 +822,111 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
         const userMessage: Message = {
             id: Math.random().toString(),
-            text: text || `📎 Sent ${attachments.length} file(s)`,
+            text: text || `📎 ${t('sentFiles', { count: attachments.length })}`,
             isUser: true,
             timestamp: new Date(),
-            attachments: attachmentInfo
+            attachments: attachmentInfo,
+            status: 'sending'
         };
 
+        const payload: OutgoingPayload = {
+            text,
+            attachments: withAttachments && hasAttachments ? getDirectLineAttachments() : undefined
+        };
+
+        // The bubble now owns the payload (and can retry it), so clear the composer
         setMessages(prev => [...prev, userMessage]);
+        setInputText('');
+        if (payload.attachments) {
+            clearAttachments();
+        }
         setIsSending(true);
 
         try {
-            if (withAttachments && hasAttachments) {
-                const directLineAttachments = getDirectLineAttachments();
-                await chatService.sendMessageWithAttachments(text, directLineAttachments);
-                clearAttachments();
-            } else {
-                await chatService.sendMessage(text);
-            }
-            setInputText('');
-        } catch (error) {
-            console.error('Failed to send message:', error);
+            await deliverMessage(userMessage.id, payload);
         } finally {
             setIsSending(false);
         }
     };
 
+    // Update a single message in place
+    const updateMessage = (id: string, changes: Partial<Message>): void => {
+        setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...changes } : m)));
+    };
+
+    // Hand a message to the service outbox to be sent once the network is back
+    const queueMessage = (messageId: string, payload: OutgoingPayload): void => {
+        chatService.queueMessage(messageId, payload);
+        updateMessage(messageId, { status: 'queued' });
+        stopWaitingForBot();
+    };
+
+    /**
+     * Send the payload for a user bubble and track its delivery status.
+     * Resolves true once Direct Line has accepted the activity or it has been queued.
+     */
+    const deliverMessage = async (messageId: string, payload: OutgoingPayload): Promise<boolean> => {
+        outgoingPayloadsRef.current.set(messageId, payload);
+        // Attachment content is never written to storage, so a message with files can only be retried until the page reloads
+        if (!payload.attachments || payload.attachments.length === 0) {
+            updateMessage(messageId, { outgoing: { text: payload.text, value: payload.value } });
+        }
+
+        // Keep order: while offline or while older messages wait, queue behind them
+        if (!navigator.onLine || chatService.getOutboxIds().length > 0) {
+            queueMessage(messageId, payload);
+            return true;
+        }
+
+        updateMessage(messageId, { status: 'sending' });
+
+        try {
+            const activityId = payload.attachments && payload.attachments.length > 0
+                ? await chatService.sendMessageWithAttachments(payload.text, payload.attachments)
+                : await chatService.sendActivity({ text: payload.text, value: payload.value });
+            outgoingPayloadsRef.current.delete(messageId);
+            updateMessage(messageId, { status: 'sent', activityId });
+            return true;
+        } catch (error) {
+            if (error instanceof NetworkError) {
+                console.log('📴 Send failed with a network error, queuing message');
+                queueMessage(messageId, payload);
+                return true;
+            }
+            console.error('Failed to send message:', error);
+            updateMessage(messageId, { status: 'failed' });
+            stopWaitingForBot();
+            setSendError(describeSendError(error, t));
+            return false;
+        }
+    };
+
+    const handleRetryMessage = (msg: Message): void => {
+        // After a reload only the saved text and value survive; attachments cannot be re-sent
+        const payload = outgoingPayloadsRef.current.get(msg.id) || msg.outgoing;
+        if (!payload) {
+            return;
+        }
+        console.log('🔁 Retrying message:', msg.id);
+        setSendError(null);
+        waitForReply();
+        void deliverMessage(msg.id, payload);
+    };
+
+    const handleDeleteMessage = (msg: Message): void => {
+        console.log('🗑️ Deleting failed message:', msg.id);
+        outgoingPayloadsRef.current.delete(msg.id);
+        setMessages(prev => prev.filter(m => m.id !== msg.id));
+    };
+
+    // A failed message can be retried if we still have what was sent
+    const canRetryMessage = (msg: Message): boolean =>
+        outgoingPayloadsRef.current.has(msg.id) || msg.outgoing !== undefined;
+
     const unlockAudio = async (): Promise<void> => {
         try {
             console.log('🔓 Unlocking audio for iOS/Android...');
-            const audioContext = new (window.AudioContext || window.webkitAudioContext)();
+            const audioContext = new (getAudioContextConstructor())();
             const buffer = audioContext.createBuffer(1, 1, 22050);
             const source = audioContext.createBufferSource();
             source.buffer = buffer;
@@ -629,7 +939,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
             const hasSpeech = (speechKey && speechRegion) || (openAIEndpoint && openAIKey);
             if (hasSpeech) {
                 console.log('🎤 Testing TTS audio playback...');
-                await speak('Voice enabled');
+                await speak(t('voiceEnabled'));
             }
         } catch (error) {
             console.error('❌ Failed to unlock audio:', error);
@@ -665,7 +975,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
 
     const toggleListening = (): void => {
         if (!recognitionRef.current) {
-            alert('Speech recognition not supported in this browser');
+            alert(t('speechNotSupported'));
             return;
         }
 
@@ -684,15 +994,23 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }
     };
 
-    const handleDrivingModeStart = (): void => {
+    // Returns whether listening started
+    const handleDrivingModeStart = (): boolean => {
         if (!recognitionRef.current) {
-            alert('Speech recognition not supported in this browser');
-            return;
+            alert(t('speechNotSupported'));
+            return false;
         }
         setTranscribedText('');
         setLastUserInput('');
-        recognitionRef.current.start();
-        setIsListening(true);
+        // Throws if recognition is already running, e.g. a timer firing after the user tapped the mic
+        try {
+            recognitionRef.current.start();
+            setIsListening(true);
+            return true;
+        } catch (e) {
+            console.log('🚗 Mic already active or unavailable');
+            return false;
+        }
     };
 
     const handleDrivingModeStop = (): void => {
@@ -710,6 +1028,73 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }, 500);
     };
 
+    // Talking over the bot stops playback, drops the rest of the queued replies and listens right away
+    const handleBargeIn = (): void => {
+        cancelSpeechRef.current = true;
+        stop();
+        setIsPlaying(false);
+        isSpeakingRef.current = false;
+        setTimeout(() => {
+            cancelSpeechRef.current = false;
+        }, 100);
+
+        if (recognitionRef.current) {
+            setTranscribedText('');
+            setLastUserInput('');
+            try {
+                recognitionRef.current.start();
+                setIsListening(true);
+            } catch (e) {
+                console.log('🚗 Mic already active or unavailable');
+            }
+        }
+    };
+
+    useBargeIn(drivingMode && isPlaying, handleBargeIn);
+
+    const getSpeechLevel = useSpeechLevel(drivingMode && isListening);
+
+    // A detection can land before the hook sees that playback started; ignore it then
+    const handleWakePhrase = (): boolean => !isSpeakingRef.current && handleDrivingModeStart();
+
+    useWakeWord(
+        drivingMode && isWakePhraseActive && wakePhraseSample === null &&
+            !isListening && !isPlaying && !isSending && !isWaitingForBot,
+        wakePhraseModel,
+        handleWakePhrase
+    );
+
+    // Record the wake phrase a few times; matching compares what the mic hears with these samples
+    const recordWakePhrase = async (): Promise<void> => {
+        if (!wakePhrase) {
+            return;
+        }
+        setWakePhraseError(false);
+        const samples: number[][][] = [];
+        try {
+            for (let i = 1; i <= WAKE_PHRASE_SAMPLES; i++) {
+                setWakePhraseSample(i);
+                const sample = await recordWakePhraseSample();
+                if (!sample) {
+                    setWakePhraseError(true);
+                    return;
+                }
+                samples.push(sample);
+            }
+        } catch (error) {
+            console.error('❌ Failed to record wake phrase:', error);
+            setWakePhraseError(true);
+            return;
+        } finally {
+            setWakePhraseSample(null);
+        }
+
+        const model = createWakePhraseModel(wakePhrase, samples);
+        saveWakePhraseModel(model);
+        setWakePhraseModel(model);
+        setWakePhraseEnabled(true);
+    };
+
     const handleAudioPlay = (): void => {
         console.log('▶️ Playing - enabling voice output for future messages');
         setIsMuted(false);
@@ -765,9 +1150,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
     };
 
     const getAudioButtonColor = (): { bg: string; color: string; border: string } => {
-        if (isMuted) return { bg: '#d13438', color: '#fff', border: '#d13438' };
-        if (isPaused) return { bg: '#ffc83d', color: '#323130', border: '#ffc83d' };
-        return { bg: '#107c10', color: '#fff', border: '#107c10' };
+        if (isMuted) return { bg: theme.errorColor, color: theme.surfaceColor, border: theme.errorColor };
+        if (isPaused) return { bg: theme.warningColor, color: theme.textOnWarningColor, border: theme.warningColor };
+        return { bg: theme.successColor, color: theme.surfaceColor, border: theme.successColor };
     };
 
     const handleSignIn = async (signInUrl: string): Promise<void> => {
@@ -796,38 +1181,410 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
         }, 500);
     };
 
-    const handleCardAction = async (action: CardAction): Promise<void> => {
+    // Quick replies offered by the latest bot message; answering clears them
+    const suggestedActions = React.useMemo((): DirectLineCardAction[] => {
+        const lastMsg = messages[messages.length - 1];
+        return lastMsg && !lastMsg.isUser ? lastMsg.suggestedActions || [] : [];
+    }, [messages]);
+
+    // A one-word reply is expected after a question, quick replies or a card with buttons
+    const lastBotMessage = [...messages].reverse().find(msg => !msg.isUser);
+    expectsShortAnswerRef.current = suggestedActions.length > 0 || (!!lastBotMessage && (
+        isQuestion(lastBotMessage.text) ||
+        !!lastBotMessage.botAttachments?.some(attachment => (getCardReadout(attachment, t)?.actions.length ?? 0) > 0)
+    ));
+
+    // With latestCardOnly, only the newest bot message with an Adaptive Card stays interactive
+    const latestCardMessageId = React.useMemo((): string | undefined => {
+        const latest = [...messages].reverse().find(m =>
+            !m.isUser && m.botAttachments?.some(a => a.contentType === ADAPTIVE_CARD_CONTENT_TYPE));
+        return latest?.id;
+    }, [messages]);
+
+    /**
+     * Run a Bot Framework card action (suggested action chip or rich card button).
+     * imBack posts its value as the user's message, postBack sends silently,
+     * messageBack sends text/value and shows displayText, URL actions open a tab.
+     */
+    const handleBotAction = async (action: DirectLineCardAction): Promise<void> => {
+        console.log('🎯 Bot action triggered:', action.type, getActionTitle(action));
+
+        if (URL_ACTION_TYPES.includes(action.type)) {
+            if (typeof action.value === 'string') {
+                window.open(action.value, '_blank', 'noopener,noreferrer');
+            }
+            return;
+        }
+        if (action.type === 'call') {
+            if (typeof action.value === 'string') {
+                window.open(action.value.startsWith('tel:') ? action.value : `tel:${action.value}`, '_self');
+            }
+            return;
+        }
+
+        // Chips are one-shot - drop them from the message that offered them
+        setMessages(prev => prev.map(m => (m.suggestedActions ? { ...m, suggestedActions: undefined } : m)));
+        setSendError(null);
+
+        let bubbleText: string | null;
+        let payload: OutgoingPayload;
+        switch (action.type) {
+            case 'imBack':
+                bubbleText = typeof action.value === 'string' ? action.value : action.title || '';
+                payload = { text: bubbleText };
+                break;
+            case 'postBack':
+                // Sent to the bot but not shown in the transcript
+                bubbleText = null;
+                payload = typeof action.value === 'string'
+                    ? { text: action.value }
+                    : { text: action.text || '', value: action.value };
+                break;
+            case 'messageBack':
+                bubbleText = action.displayText || null;
+                payload = { text: action.text || '', value: action.value };
+                break;
+            default:
+                console.warn('⚠️ Unsupported action type:', action.type);
+                return;
+        }
+
+        setLastUserInput(bubbleText || getActionTitle(action));
+        waitForReply();
+
+        if (bubbleText === null) {
+            try {
+                await chatService.sendActivity(payload);
+            } catch (error) {
+                console.error('Failed to send action:', error);
+                stopWaitingForBot();
+                setSendError(describeSendError(error, t));
+            }
+            return;
+        }
+
+        const userMessage: Message = {
+            id: Math.random().toString(),
+            text: bubbleText,
+            isUser: true,
+            timestamp: new Date(),
+            status: 'sending'
+        };
+        setMessages(prev => [...prev, userMessage]);
+        await deliverMessage(userMessage.id, payload);
+    };
+
+    // Lock a card once the user has acted on it, keeping what they submitted
+    const markCardSubmitted = (messageId: string, attachmentIndex: number, data: unknown): void => {
+        setMessages(prev => prev.map(m => (m.id === messageId
+            ? { ...m, cardSubmissions: { ...m.cardSubmissions, [attachmentIndex]: data ?? {} } }
+            : m)));
+    };
+
+    /**
+     * Run an Action.Execute through the adaptiveCard/action invoke and apply the response:
+     * a card replaces the one that raised it, a message is shown as a bot reply.
+     */
+    const executeCardAction = async (action: CardAction, messageId: string, attachmentIndex: number): Promise<void> => {
+        const isManual = action.trigger !== 'automatic';
+        if (isManual) {
+            setSendError(null);
+        }
+
+        try {
+            const response = await chatService.sendInvoke(ADAPTIVE_CARD_INVOKE_NAME, {
+                action: { type: 'Action.Execute', verb: action.verb, data: action.data },
+                trigger: action.trigger || 'manual'
+            });
+            const body = (response.body || {}) as AdaptiveCardInvokeResponse;
+            console.log('📬 Card action response:', response.status, body.type);
+
+            if (response.status >= 400 || body.type === 'application/vnd.microsoft.error') {
+                const error = body.value as { message?: string } | undefined;
+                throw new Error(error?.message || `Card action failed with status ${response.status}`);
+            }
+
+            if (body.type === ADAPTIVE_CARD_CONTENT_TYPE && body.value) {
+                // Replace the card in place
+                const card = expandCardTemplate(body.value);
+                setMessages(prev => prev.map(m => (m.id === messageId && m.botAttachments
+                    ? {
+                        ...m,
+                        botAttachments: m.botAttachments.map((a, i) => (i === attachmentIndex ? { ...a, content: card } : a))
+                    }
+                    : m)));
+                return;
+            }
+
+            // The card wasn't replaced, so a user-triggered action locks it
+            if (isManual) {
+                markCardSubmitted(messageId, attachmentIndex, action.data);
+            }
+
+            if (body.type === 'application/vnd.microsoft.activity.message' && typeof body.value === 'string') {
+                const text = body.value;
+                setMessages(prev => [...prev, {
+                    id: Math.random().toString(),
+                    text,
+                    isUser: false,
+                    timestamp: new Date(),
+                    speakText: text
+                }]);
+            }
+        } catch (error) {
+            console.error('Card action failed:', error);
+            // A failed background refresh leaves the card as the bot sent it
+            if (isManual) {
+                setSendError(error instanceof DirectLineError
+                    ? describeSendError(error, t)
+                    : t('cardActionFailed'));
+            }
+        }
+    };
+
+    // Say something in Driving Mode outside the bot's replies, pausing the mic while it plays
+    const announce = (announcement: string, announcementLocale?: string, onFinished?: () => void): void => {
+        if (isSpeakingRef.current) {
+            return;
+        }
+
+        isSpeakingRef.current = true;
+        if (recognitionRef.current) {
+            try {
+                recognitionRef.current.stop();
+            } catch (e) {
+                // Already stopped
+            }
+            setIsListening(false);
+        }
+        setIsPlaying(true);
+
+        setLastBotResponse(announcement);
+        void speakRef.current(announcement, announcementLocale)
+            .catch(error => console.error('❌ Speech failed:', error))
+            .finally(() => {
+                setIsPlaying(false);
+                isSpeakingRef.current = false;
+                if (!cancelSpeechRef.current) {
+                    onFinished?.();
+                }
+            });
+    };
+
+    // The card highlights invalid inputs itself; in Driving Mode also read out what needs fixing
+    const handleCardValidationError = (messages: string[]): void => {
+        if (drivingMode) {
+            announce(`${t('formIncomplete')} ${messages.join(' ')}`);
+        }
+    };
+
+    // Let the user hear the new speed right away - speak() picks it up after the next render
+    React.useEffect(() => {
+        if (rateAnnouncementRef.current) {
+            announce(rateAnnouncementRef.current);
+            rateAnnouncementRef.current = null;
+        }
+    }, [speechRate]);
+
+    // Act on a Driving Mode voice command; false sends the words to the bot after all
+    const handleVoiceCommand = (command: VoiceCommand, transcript: string): boolean => {
+        // A quick reply chip with the same title is an answer to the bot, not a command
+        if (suggestedActions.some(action => normalizeUtterance(getActionTitle(action)) === normalizeUtterance(transcript))) {
+            return false;
+        }
+
+        // Any command drops a message still waiting for confirmation
+        pendingSendRef.current = null;
+        setLastUserInput(transcript);
+        switch (command) {
+            case 'stop':
+                handleDrivingModeStop();
+                break;
+            case 'cancel':
+                if (autoSendTimerRef.current) {
+                    clearTimeout(autoSendTimerRef.current);
+                    autoSendTimerRef.current = null;
+                }
+                setInputText('');
+                announce(t('commandCancelled'));
+                break;
+            case 'repeat': {
+                const lastReply = [...messages].reverse().find(msg => !msg.isUser && msg.speakText);
+                if (lastReply) {
+                    announce(lastReply.speakText!, lastReply.locale);
+                } else {
+                    announce(t('nothingToRepeat'));
+                }
+                break;
+            }
+            case 'readCard': {
+                const lastCardMessage = [...messages].reverse().find(msg => !msg.isUser && msg.botAttachments?.length);
+                const readouts = (lastCardMessage?.botAttachments || [])
+                    .map(attachment => getCardReadout(attachment, t))
+                    .filter((readout): readout is CardReadout => !!readout?.text);
+                if (readouts.length === 0) {
+                    announce(t('noCardToRead'));
+                    break;
+                }
+                const actions = readouts.flatMap(readout => readout.actions);
+                const text = readouts.map(readout => readout.text).join('. ');
+                announce(
+                    actions.length > 0 ? `${text}. ${t('youCanSay', { choices: actions.join(', ') })}` : text,
+                    lastCardMessage?.locale
+                );
+                break;
+            }
+            case 'slower':
+            case 'faster': {
+                const step = command === 'slower' ? -SPEECH_RATE_STEP : SPEECH_RATE_STEP;
+                const nextRate = Math.round(Math.min(MAX_SPEECH_RATE, Math.max(MIN_SPEECH_RATE, speechRate + step)) * 100) / 100;
+                if (nextRate === speechRate) {
+                    announce(t(command === 'slower' ? 'speechRateSlowest' : 'speechRateFastest'));
+                } else {
+                    rateAnnouncementRef.current = t(command === 'slower' ? 'speechRateSlower' : 'speechRateFaster');
+                    setSpeechRate(nextRate);
+                }
+                break;
+            }
+            case 'mute':
+                setIsDrivingModeMuted(true);
+                setLastBotResponse(t('voiceRepliesMuted'));
+                break;
+            case 'unmute':
+                setIsDrivingModeMuted(false);
+                announce(t('voiceRepliesOn'));
+                break;
+            case 'newConversation':
+                void handleNewChat();
+                break;
+            case 'exitDrivingMode':
+                setDrivingMode(false);
+                break;
+        }
+        return true;
+    };
+    voiceCommandRef.current = handleVoiceCommand;
+
+    const sendSpokenMessage = (text: string): void => {
+        console.log('🚗 Driving mode: Auto-sending message:', text);
+        if (recognitionRef.current) {
+            try {
+                recognitionRef.current.stop();
+            } catch (e) {
+                // Already stopped
+            }
+        }
+        setIsListening(false);
+        setIsSending(true);
+        void sendMessage(text)
+            .catch(error => {
+                console.error('❌ Failed to send message:', error);
+            })
+            .finally(() => {
+                setIsSending(false);
+                setInputText('');
+            });
+    };
+
+    // Turn the mic back on after a question, even when the wake phrase would normally be needed
+    const listenForAnswer = (): void => {
+        try {
+            handleDrivingModeStart();
+        } catch (e) {
+            console.log('🚗 Mic already active or unavailable');
+        }
+    };
+
+    // A final Driving Mode transcript that isn't a command: answer the pending confirmation,
+    // read it back for one, or send it after a pause
+    const handleSpokenMessage = (transcript: string): void => {
+        setLastUserInput(transcript);
+
+        const pending = pendingSendRef.current;
+        if (pending !== null) {
+            const answer = parseConfirmation(transcript, recognitionLanguage || locale);
+            console.log('🚗 Driving mode: Confirmation answer:', answer);
+            if (answer === 'yes') {
+                pendingSendRef.current = null;
+                setLastUserInput(pending);
+                sendSpokenMessage(pending);
+            } else if (answer === 'no') {
+                pendingSendRef.current = null;
+                setInputText('');
+                announce(t('commandCancelled'));
+            } else if (answer === 'edit') {
+                pendingSendRef.current = null;
+                setInputText('');
+                announce(t('confirmSendEdit'), undefined, listenForAnswer);
+            } else {
+                announce(t('confirmSendRetry'), undefined, listenForAnswer);
+            }
+            return;
+        }
+
+        setInputText(transcript);
+        if (autoSendTimerRef.current) {
+            clearTimeout(autoSendTimerRef.current);
+        }
+
+        if (confirmBeforeSend) {
+            pendingSendRef.current = transcript;
+            announce(t('confirmSend', { text: transcript }), undefined, listenForAnswer);
+            return;
+        }
+
+        autoSendTimerRef.current = setTimeout(() => sendSpokenMessage(transcript), Math.max(0, autoSendDelay));
+    };
+    spokenMessageRef.current = handleSpokenMessage;
+
+    const handleCardAction = async (action: CardAction, messageId: string, attachmentIndex: number): Promise<void> => {
         console.log('🎯 Card action triggered:', action);
 
+        if (action.type === 'execute') {
+            await executeCardAction(action, messageId, attachmentIndex);
+            return;
+        }
+
         if (action.type === 'submit') {
+            markCardSubmitted(messageId, attachmentIndex, action.data);
+
+            // String data is sent as the user's text; anything else is form data for activity.value
+            const payload: OutgoingPayload = typeof action.data === 'string'
+                ? { text: action.data }
+                : { text: '', value: action.data ?? {} };
+
             const userMessage: Message = {
                 id: Math.random().toString(),
-                text: action.title || 'Selected action',
+                text: payload.text || action.title || t('submitted'),
                 isUser: true,
-                timestamp: new Date()
+                timestamp: new Date(),
+                status: 'sending'
             };
             setMessages(prev => [...prev, userMessage]);
-            setIsTyping(true);
+            setSendError(null);
+            waitForReply();
 
-            try {
-                await chatService.sendMessage(action.title || JSON.stringify(action.data));
+            const sent = await deliverMessage(userMessage.id, payload);
+            if (sent) {
                 console.log('✅ Card action sent to bot');
-            } catch (error) {
-                console.error('❌ Failed to send card action:', error);
-                setIsTyping(false);
             }
         }
     };
 
     const handleNewChat = async (): Promise<void> => {
+        pendingSendRef.current = null;
         setMessages([]);
         seenMessageIds.current.clear();
         hasGreeted.current = false;
         setLastUserInput('');
         setLastBotResponse('');
         setTranscribedText('');
+        stopWaitingForBot();
         clearMessages();
         clearConversationState();
+        chatService.clearOutbox();
+        setOutboxCount(0);
+        setUnsavedOutboxIds([]);
         setTimeout(async () => {
             try {
                 await chatService.triggerConversationStart();
@@ -844,17 +1601,20 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 flexDirection: 'column',
                 height: '100%',
                 width: '100%',
-                backgroundColor: '#f3f2f1',
-                fontFamily: '"Segoe UI", "Helvetica Neue", sans-serif',
+                backgroundColor: theme.backgroundColor,
+                color: theme.textColor,
+                fontFamily: theme.fontFamily,
                 position: 'relative'
             }}
+            dir={isRtlLocale(locale) ? 'rtl' : 'ltr'}
+            lang={locale}
         >
             {/* Top Bar */}
             <div
                 style={{
                     position: 'absolute',
                     top: '8px',
-                    right: '20px',
+                    insetInlineEnd: '20px',
                     zIndex: 100,
                     display: 'flex',
                     gap: '8px'
@@ -864,9 +1624,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     onClick={handleNewChat}
                     style={{
                         padding: '8px 10px',
-                        backgroundColor: '#f3f2f1',
-                        color: '#605e5c',
-                        border: '1px solid #8a8886',
+                        backgroundColor: theme.backgroundColor,
+                        color: theme.subtleTextColor,
+                        border: `1px solid ${theme.borderColor}`,
                         borderRadius: '4px',
                         cursor: 'pointer',
                         fontSize: '14px',
@@ -877,7 +1637,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         justifyContent: 'center',
                         boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
                     }}
-                    title="New Chat"
+                    title={t('newChat')}
                 >
                     🔄
                 </button>
@@ -885,9 +1645,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     onClick={() => setDrivingMode(!drivingMode)}
                     style={{
                         padding: '8px 10px',
-                        backgroundColor: drivingMode ? '#0078d4' : '#f3f2f1',
-                        color: drivingMode ? '#fff' : '#605e5c',
-                        border: drivingMode ? '1px solid #0078d4' : '1px solid #8a8886',
+                        backgroundColor: drivingMode ? theme.primaryColor : theme.backgroundColor,
+                        color: drivingMode ? theme.primaryTextColor : theme.subtleTextColor,
+                        border: `1px solid ${drivingMode ? theme.primaryColor : theme.borderColor}`,
                         borderRadius: '4px',
                         cursor: 'pointer',
                         fontSize: '16px',
@@ -898,7 +1658,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         justifyContent: 'center',
                         boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
                     }}
-                    title={drivingMode ? 'Exit Driving Mode' : 'Enter Driving Mode'}
+                    title={drivingMode ? t('exitDrivingMode') : t('enterDrivingMode')}
                 >
                     🚗
                 </button>
@@ -924,7 +1684,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 >
                     <div
                         style={{
-                            backgroundColor: '#fff',
+                            backgroundColor: theme.surfaceColor,
                             borderRadius: '16px',
                             padding: '24px',
                             maxWidth: '320px',
@@ -940,30 +1700,28 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                 margin: '0 0 8px 0',
                                 fontSize: '20px',
                                 fontWeight: '600',
-                                color: '#323130'
+                                color: theme.textColor
                             }}
                         >
-                            Enable Voice
+                            {t('enableVoice')}
                         </h2>
                         <p
                             style={{
                                 margin: '0 0 20px 0',
                                 fontSize: '14px',
-                                color: '#605e5c',
+                                color: theme.subtleTextColor,
                                 lineHeight: '1.5'
                             }}
                         >
-                            {isIOS
-                                ? 'iOS requires a tap to enable voice responses. Tap below to hear your Copilot assistant.'
-                                : 'Tap below to enable voice responses from your Copilot assistant.'}
+                            {isIOS ? t('enableVoicePromptIOS') : t('enableVoicePrompt')}
                         </p>
                         <button
                             onClick={unlockAudio}
                             style={{
                                 width: '100%',
                                 padding: '14px 24px',
-                                backgroundColor: '#107c10',
-                                color: '#fff',
+                                backgroundColor: theme.successColor,
+                                color: theme.surfaceColor,
                                 border: 'none',
                                 borderRadius: '8px',
                                 cursor: 'pointer',
@@ -975,7 +1733,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                 gap: '8px'
                             }}
                         >
-                            🔓 Enable Voice Output
+                            🔓 {t('enableVoiceOutput')}
                         </button>
                         <button
                             onClick={() => setShowAudioPrompt(false)}
@@ -983,14 +1741,14 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                 marginTop: '12px',
                                 padding: '10px',
                                 backgroundColor: 'transparent',
-                                color: '#605e5c',
+                                color: theme.subtleTextColor,
                                 border: 'none',
                                 cursor: 'pointer',
                                 fontSize: '14px',
                                 width: '100%'
                             }}
                         >
-                            Maybe later
+                            {t('maybeLater')}
                         </button>
                     </div>
                 </div>
@@ -1002,7 +1760,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     isListening={isListening}
                     isPlaying={isPlaying}
                     isSending={isSending}
-                    isWaitingForResponse={isTyping}
+                    isWaitingForResponse={isWaitingForBot}
                     transcribedText={transcribedText}
                     userInput={lastUserInput}
                     botResponse={lastBotResponse}
@@ -1010,10 +1768,30 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     onStopClick={handleDrivingModeStop}
                     onClose={() => setDrivingMode(false)}
                     modalTitle={modalTitle}
+                    wakePhrase={isWakePhraseActive ? wakePhrase : undefined}
+                    theme={theme}
+                    locale={locale}
                     onNewConversation={handleNewChat}
                 />
             )}
 
+            {/* Outbox Banner */}
+            {outboxCount > 0 && (
+                <div
+                    style={{
+                        padding: '8px 20px',
+                        paddingInlineEnd: '120px',
+                        backgroundColor: theme.warningBackgroundColor,
+                        borderBottom: `1px solid ${theme.warningColor}`,
+                        fontSize: '13px',
+                        color: theme.textColor
+                    }}
+                >
+                    📮 {outboxCount === 1 ? t('outboxOne') : t('outboxMany', { count: outboxCount })}
+                    {!isOnline && ` - ${t('youAreOffline')}`}
+                </div>
+            )}
+
             {/* Messages Area */}
             <div
                 style={{
@@ -1031,22 +1809,89 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         key={msg.id}
                         style={{
                             alignSelf: msg.isUser ? 'flex-end' : 'flex-start',
-                            backgroundColor: msg.isUser ? '#0078d4' : '#fff',
-                            color: msg.isUser ? '#fff' : '#323130',
+                            backgroundColor: msg.isUser ? theme.primaryColor : theme.surfaceColor,
+                            color: msg.isUser ? theme.primaryTextColor : theme.textColor,
+                            border: msg.status === 'failed' ? `2px solid ${theme.errorColor}` : 'none',
                             padding: '12px 16px',
-                            borderRadius: msg.isUser ? '12px 12px 0 12px' : '12px 12px 12px 0',
-                            maxWidth: '75%',
+                            // Logical corner so the tail flips with the text direction
+                            borderRadius: `${theme.cornerRadius}px`,
+                            ...(msg.isUser ? { borderEndEndRadius: 0 } : { borderEndStartRadius: 0 }),
+                            maxWidth: msg.attachmentLayout === 'carousel' ? '90%' : '75%',
                             boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
                             wordWrap: 'break-word',
-                            fontSize: '14px',
+                            fontSize: `${theme.fontSize}px`,
                             lineHeight: '1.5'
                         }}
                     >
                         <Markdown>{msg.text}</Markdown>
-                        {msg.adaptiveCard && (
-                            <AdaptiveCardRenderer
-                                card={msg.adaptiveCard}
-                                onAction={handleCardAction}
+                        {msg.isUser && msg.status === 'sending' && (
+                            <div style={{ fontSize: '11px', opacity: 0.8, marginTop: '4px' }}>
+                                {t('sending')}
+                            </div>
+                        )}
+                        {msg.isUser && msg.status === 'queued' && (
+                            <div style={{ fontSize: '11px', opacity: 0.8, marginTop: '4px' }}>
+                                🕓 {t('waitingForConnection')}
+                                {unsavedOutboxIds.includes(msg.id) && ` ${t('lostOnReload')}`}
+                            </div>
+                        )}
+                        {msg.isUser && msg.status === 'failed' && (
+                            <div
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '8px',
+                                    marginTop: '6px',
+                                    fontSize: '12px'
+                                }}
+                            >
+                                <span>⚠️ {t('notDelivered')}</span>
+                                {canRetryMessage(msg) && (
+                                    <button
+                                        onClick={() => handleRetryMessage(msg)}
+                                        style={{
+                                            padding: '2px 8px',
+                                            backgroundColor: theme.surfaceColor,
+                                            color: theme.primaryColor,
+                                            border: 'none',
+                                            borderRadius: '4px',
+                                            cursor: 'pointer',
+                                            fontSize: '12px',
+                                            fontWeight: '600'
+                                        }}
+                                        title={t('retryTitle')}
+                                    >
+                                        {t('retry')}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => handleDeleteMessage(msg)}
+                                    style={{
+                                        padding: '2px 8px',
+                                        backgroundColor: 'transparent',
+                                        color: theme.primaryTextColor,
+                                        border: `1px solid ${theme.primaryTextColor}`,
+                                        borderRadius: '4px',
+                                        cursor: 'pointer',
+                                        fontSize: '12px'
+                                    }}
+                                    title={t('deleteTitle')}
+                                >
+                                    {t('delete')}
+                                </button>
+                            </div>
+                        )}
+                        {msg.botAttachments && (
+                            <BotAttachments
+                                attachments={msg.botAttachments}
+                                layout={msg.attachmentLayout}
+                                onCardAction={(action, index) => void handleCardAction(action, msg.id, index)}
+                                onBotAction={action => void handleBotAction(action)}
+                                onValidationError={handleCardValidationError}
+                                cardSubmissions={msg.cardSubmissions}
+                                readOnly={latestCardOnly && msg.id !== latestCardMessageId}
+                                theme={theme}
+                                locale={locale}
                             />
                         )}
                         {msg.isSignInCard && msg.signInUrl && (
@@ -1055,8 +1900,8 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                 style={{
                                     marginTop: '8px',
                                     padding: '8px 16px',
-                                    backgroundColor: '#0078d4',
-                                    color: '#fff',
+                                    backgroundColor: theme.primaryColor,
+                                    color: theme.primaryTextColor,
                                     border: 'none',
                                     borderRadius: '4px',
                                     cursor: 'pointer',
@@ -1066,24 +1911,33 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     width: '100%'
                                 }}
                             >
-                                Sign In
+                                {t('signIn')}
                             </button>
                         )}
                     </div>
                 ))}
 
+                {/* Suggested Actions */}
+                <SuggestedActions
+                    actions={suggestedActions}
+                    onAction={action => void handleBotAction(action)}
+                    disabled={isSending}
+                    theme={theme}
+                />
+
                 {/* Typing Indicator */}
                 {isTyping && (
                     <div
                         style={{
                             alignSelf: 'flex-start',
-                            backgroundColor: '#fff',
-                            color: '#323130',
+                            backgroundColor: theme.surfaceColor,
+                            color: theme.textColor,
                             padding: '12px 16px',
-                            borderRadius: '12px 12px 12px 0',
+                            borderRadius: `${theme.cornerRadius}px`,
+                            borderEndStartRadius: 0,
                             maxWidth: '75%',
                             boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
-                            fontSize: '14px',
+                            fontSize: `${theme.fontSize}px`,
                             lineHeight: '1.5',
                             display: 'flex',
                             alignItems: 'center',
@@ -1104,7 +1958,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     width: '8px',
                                     height: '8px',
                                     borderRadius: '50%',
-                                    backgroundColor: '#0078d4',
+                                    backgroundColor: theme.primaryColor,
                                     animation: 'typingDot 1.4s infinite',
                                     animationDelay: '0s'
                                 }}
@@ -1114,7 +1968,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     width: '8px',
                                     height: '8px',
                                     borderRadius: '50%',
-                                    backgroundColor: '#0078d4',
+                                    backgroundColor: theme.primaryColor,
                                     animation: 'typingDot 1.4s infinite',
                                     animationDelay: '0.2s'
                                 }}
@@ -1124,7 +1978,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     width: '8px',
                                     height: '8px',
                                     borderRadius: '50%',
-                                    backgroundColor: '#0078d4',
+                                    backgroundColor: theme.primaryColor,
                                     animation: 'typingDot 1.4s infinite',
                                     animationDelay: '0.4s'
                                 }}
@@ -1150,6 +2004,8 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         attachments={attachments}
                         onRemove={removeAttachment}
                         isProcessing={isProcessingAttachments}
+                        theme={theme}
+                        locale={locale}
                     />
                 </div>
             )}
@@ -1162,12 +2018,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         bottom: hasAttachments ? '180px' : '80px',
                         left: '20px',
                         right: '20px',
-                        backgroundColor: '#fde7e9',
-                        border: '1px solid #d13438',
+                        backgroundColor: theme.errorBackgroundColor,
+                        border: `1px solid ${theme.errorColor}`,
                         borderRadius: '4px',
                         padding: '8px 12px',
                         fontSize: '13px',
-                        color: '#a80000',
+                        color: theme.errorTextColor,
                         zIndex: 11
                     }}
                 >
@@ -1175,6 +2031,45 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                 </div>
             )}
 
+            {/* Send Error */}
+            {sendError && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        bottom: '80px',
+                        left: '20px',
+                        right: '20px',
+                        backgroundColor: theme.errorBackgroundColor,
+                        border: `1px solid ${theme.errorColor}`,
+                        borderRadius: '4px',
+                        padding: '8px 12px',
+                        fontSize: '13px',
+                        color: theme.errorTextColor,
+                        zIndex: 11,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        gap: '8px'
+                    }}
+                >
+                    <span>⚠️ {sendError}</span>
+                    <button
+                        onClick={() => setSendError(null)}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: theme.errorTextColor,
+                            cursor: 'pointer',
+                            fontSize: '14px',
+                            padding: 0
+                        }}
+                        title={t('dismiss')}
+                    >
+                        ✕
+                    </button>
+                </div>
+            )}
+
             {/* Input Bar */}
             <div
                 style={{
@@ -1183,8 +2078,8 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     left: 0,
                     right: 0,
                     padding: '16px 20px',
-                    backgroundColor: '#fff',
-                    borderTop: '1px solid #edebe9',
+                    backgroundColor: theme.surfaceColor,
+                    borderTop: `1px solid ${theme.dividerColor}`,
                     display: 'flex',
                     gap: '8px',
                     alignItems: 'center',
@@ -1197,9 +2092,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     disabled={isSending}
                     style={{
                         padding: '10px 12px',
-                        backgroundColor: isListening ? '#c7e0f4' : '#f3f2f1',
-                        color: isListening ? '#0078d4' : '#605e5c',
-                        border: isListening ? '2px solid #0078d4' : '1px solid #8a8886',
+                        backgroundColor: isListening ? theme.selectedBackgroundColor : theme.backgroundColor,
+                        color: isListening ? theme.primaryColor : theme.subtleTextColor,
+                        border: isListening ? `2px solid ${theme.primaryColor}` : `1px solid ${theme.borderColor}`,
                         borderRadius: '4px',
                         cursor: isSending ? 'not-allowed' : 'pointer',
                         fontSize: '18px',
@@ -1209,7 +2104,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         alignItems: 'center',
                         justifyContent: 'center'
                     }}
-                    title={isListening ? 'Listening...' : 'Voice input'}
+                    title={isListening ? t('listening') : t('voiceInput')}
                 >
                     🎤
                 </button>
@@ -1233,7 +2128,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                             justifyContent: 'center',
                             transition: 'all 0.2s ease'
                         }}
-                        title="Audio controls"
+                        title={t('audioControls')}
                     >
                         {getAudioButtonIcon()}
                     </button>
@@ -1244,10 +2139,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                 bottom: '50px',
                                 left: '50%',
                                 transform: 'translateX(-50%)',
-                                backgroundColor: '#fff',
+                                backgroundColor: theme.surfaceColor,
                                 borderRadius: '8px',
                                 boxShadow: '0 4px 16px rgba(0,0,0,0.2)',
-                                border: '1px solid #edebe9',
+                                border: `1px solid ${theme.dividerColor}`,
                                 overflow: 'hidden',
                                 zIndex: 1000,
                                 minWidth: '120px'
@@ -1259,20 +2154,20 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     style={{
                                         width: '100%',
                                         padding: '12px 16px',
-                                        backgroundColor: '#fff',
+                                        backgroundColor: theme.surfaceColor,
                                         border: 'none',
-                                        borderBottom: '1px solid #edebe9',
+                                        borderBottom: `1px solid ${theme.dividerColor}`,
                                         cursor: 'pointer',
                                         fontSize: '14px',
                                         display: 'flex',
                                         alignItems: 'center',
                                         gap: '8px',
-                                        color: '#107c10'
+                                        color: theme.successColor
                                     }}
-                                    onMouseOver={e => (e.currentTarget.style.backgroundColor = '#f3f2f1')}
-                                    onMouseOut={e => (e.currentTarget.style.backgroundColor = '#fff')}
+                                    onMouseOver={e => (e.currentTarget.style.backgroundColor = theme.backgroundColor)}
+                                    onMouseOut={e => (e.currentTarget.style.backgroundColor = theme.surfaceColor)}
                                 >
-                                    ▶️ Play
+                                    ▶️ {t('play')}
                                 </button>
                             )}
                             {!isMuted && !isPaused && (
@@ -1281,20 +2176,20 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     style={{
                                         width: '100%',
                                         padding: '12px 16px',
-                                        backgroundColor: '#fff',
+                                        backgroundColor: theme.surfaceColor,
                                         border: 'none',
-                                        borderBottom: '1px solid #edebe9',
+                                        borderBottom: `1px solid ${theme.dividerColor}`,
                                         cursor: 'pointer',
                                         fontSize: '14px',
                                         display: 'flex',
                                         alignItems: 'center',
                                         gap: '8px',
-                                        color: '#8a6d3b'
+                                        color: theme.warningTextColor
                                     }}
-                                    onMouseOver={e => (e.currentTarget.style.backgroundColor = '#f3f2f1')}
-                                    onMouseOut={e => (e.currentTarget.style.backgroundColor = '#fff')}
+                                    onMouseOver={e => (e.currentTarget.style.backgroundColor = theme.backgroundColor)}
+                                    onMouseOut={e => (e.currentTarget.style.backgroundColor = theme.surfaceColor)}
                                 >
-                                    ⏸️ Pause
+                                    ⏸️ {t('pause')}
                                 </button>
                             )}
                             {!isMuted && (
@@ -1303,19 +2198,19 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     style={{
                                         width: '100%',
                                         padding: '12px 16px',
-                                        backgroundColor: '#fff',
+                                        backgroundColor: theme.surfaceColor,
                                         border: 'none',
                                         cursor: 'pointer',
                                         fontSize: '14px',
                                         display: 'flex',
                                         alignItems: 'center',
                                         gap: '8px',
-                                        color: '#d13438'
+                                        color: theme.errorColor
                                     }}
-                                    onMouseOver={e => (e.currentTarget.style.backgroundColor = '#f3f2f1')}
-                                    onMouseOut={e => (e.currentTarget.style.backgroundColor = '#fff')}
+                                    onMouseOver={e => (e.currentTarget.style.backgroundColor = theme.backgroundColor)}
+                                    onMouseOut={e => (e.currentTarget.style.backgroundColor = theme.surfaceColor)}
                                 >
-                                    ⏹️ Stop
+                                    ⏹️ {t('stop')}
                                 </button>
                             )}
                         </div>
@@ -1327,9 +2222,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     onClick={() => setShowSettings(!showSettings)}
                     style={{
                         padding: '10px 12px',
-                        backgroundColor: showSettings ? '#0078d4' : '#f3f2f1',
-                        color: showSettings ? '#fff' : '#605e5c',
-                        border: showSettings ? '1px solid #0078d4' : '1px solid #8a8886',
+                        backgroundColor: showSettings ? theme.primaryColor : theme.backgroundColor,
+                        color: showSettings ? theme.primaryTextColor : theme.subtleTextColor,
+                        border: `1px solid ${showSettings ? theme.primaryColor : theme.borderColor}`,
                         borderRadius: '4px',
                         cursor: 'pointer',
                         fontSize: '18px',
@@ -1339,7 +2234,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         alignItems: 'center',
                         justifyContent: 'center'
                     }}
-                    title="Settings"
+                    title={t('settings')}
                 >
                     ⚙️
                 </button>
@@ -1361,9 +2256,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                             disabled={isSending || isProcessingAttachments}
                             style={{
                                 padding: '10px 12px',
-                                backgroundColor: hasAttachments ? '#0078d4' : '#f3f2f1',
-                                color: hasAttachments ? '#fff' : '#605e5c',
-                                border: hasAttachments ? '1px solid #0078d4' : '1px solid #8a8886',
+                                backgroundColor: hasAttachments ? theme.primaryColor : theme.backgroundColor,
+                                color: hasAttachments ? theme.primaryTextColor : theme.subtleTextColor,
+                                border: `1px solid ${hasAttachments ? theme.primaryColor : theme.borderColor}`,
                                 borderRadius: '4px',
                                 cursor: isSending || isProcessingAttachments ? 'not-allowed' : 'pointer',
                                 fontSize: '18px',
@@ -1374,7 +2269,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                 justifyContent: 'center',
                                 position: 'relative'
                             }}
-                            title={hasAttachments ? `${attachments.length} file(s) attached` : 'Attach file or photo'}
+                            title={hasAttachments ? t('filesAttached', { count: attachments.length }) : t('attachFile')}
                         >
                             {isProcessingAttachments ? '⏳' : getAttachmentIconEmoji()}
                             {hasAttachments && (
@@ -1382,9 +2277,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     style={{
                                         position: 'absolute',
                                         top: '-4px',
-                                        right: '-4px',
-                                        backgroundColor: '#d13438',
-                                        color: '#fff',
+                                        insetInlineEnd: '-4px',
+                                        backgroundColor: theme.errorColor,
+                                        color: theme.surfaceColor,
                                         fontSize: '10px',
                                         fontWeight: 'bold',
                                         borderRadius: '50%',
@@ -1408,16 +2303,18 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     value={inputText}
                     onChange={e => setInputText(e.target.value)}
                     onKeyPress={handleKeyPress}
-                    placeholder={hasAttachments ? 'Add a message (optional)...' : 'Type a message...'}
+                    placeholder={hasAttachments ? t('addMessageOptional') : t('typeMessage')}
                     disabled={isSending}
                     style={{
                         flex: 1,
                         padding: '12px',
-                        border: '1px solid #8a8886',
+                        border: `1px solid ${theme.borderColor}`,
                         borderRadius: '4px',
-                        fontSize: '14px',
+                        fontSize: `${theme.fontSize}px`,
+                        fontFamily: theme.fontFamily,
                         outline: 'none',
-                        backgroundColor: '#fff'
+                        backgroundColor: theme.surfaceColor,
+                        color: theme.textColor
                     }}
                 />
 
@@ -1428,8 +2325,8 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                     style={{
                         padding: '10px 12px',
                         backgroundColor:
-                            isSending || (!inputText.trim() && !hasAttachments) ? '#c8c6c4' : '#0078d4',
-                        color: '#fff',
+                            isSending || (!inputText.trim() && !hasAttachments) ? theme.disabledColor : theme.primaryColor,
+                        color: theme.primaryTextColor,
                         border: 'none',
                         borderRadius: '4px',
                         cursor: isSending || !inputText.trim() ? 'not-allowed' : 'pointer',
@@ -1440,7 +2337,7 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         alignItems: 'center',
                         justifyContent: 'center'
                     }}
-                    title={isSending ? 'Sending...' : 'Send message'}
+                    title={isSending ? t('sending') : t('sendMessage')}
                 >
                     {isSending ? (
                         '⏳'
@@ -1472,8 +2369,8 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                         bottom: '70px',
                         left: 0,
                         right: 0,
-                        backgroundColor: '#fff',
-                        borderTop: '1px solid #e1dfdd',
+                        backgroundColor: theme.surfaceColor,
+                        borderTop: `1px solid ${theme.dividerColor}`,
                         boxShadow: '0 -2px 8px rgba(0,0,0,0.1)',
                         padding: '20px',
                         zIndex: 1000,
@@ -1495,15 +2392,15 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     margin: 0,
                                     fontSize: '16px',
                                     fontWeight: '600',
-                                    color: '#323130'
+                                    color: theme.textColor
                                 }}
                             >
-                                Settings
+                                {t('settings')}
                             </h3>
                             <span
                                 style={{
                                     fontSize: '12px',
-                                    color: '#605e5c',
+                                    color: theme.subtleTextColor,
                                     fontWeight: '400'
                                 }}
                             >
@@ -1519,23 +2416,22 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     marginBottom: '8px',
                                     fontSize: '14px',
                                     fontWeight: '600',
-                                    color: '#323130'
+                                    color: theme.textColor
                                 }}
                             >
-                                🎤 Voice Profile
+                                🎤 {t('voiceProfile')}
                             </label>
                             {availableVoices.length === 0 ? (
                                 <div
                                     style={{
                                         padding: '12px',
-                                        backgroundColor: '#fff4ce',
+                                        backgroundColor: theme.warningBackgroundColor,
                                         borderRadius: '4px',
                                         fontSize: '13px',
-                                        color: '#8a6d3b'
+                                        color: theme.warningTextColor
                                     }}
                                 >
-                                    ⚠️ No voice services configured. Contact your admin to enable Azure Speech or
-                                    OpenAI TTS.
+                                    ⚠️ {t('noVoiceServices')}
                                 </div>
                             ) : (
                                 <div style={{ display: 'flex', gap: '8px' }}>
@@ -1546,9 +2442,10 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                             flex: 1,
                                             padding: '10px',
                                             fontSize: '14px',
-                                            border: '1px solid #8a8886',
+                                            border: `1px solid ${theme.borderColor}`,
                                             borderRadius: '4px',
-                                            backgroundColor: '#fff'
+                                            backgroundColor: theme.surfaceColor,
+                                            color: theme.textColor
                                         }}
                                     >
                                         {hasOpenAI &&
@@ -1581,12 +2478,12 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                             if (!audioUnlocked) {
                                                 await unlockAudio();
                                             }
-                                            speak("Hello, I'm your sales assistant. How can I help you today?");
+                                            speak(t('previewText'));
                                         }}
                                         style={{
                                             padding: '10px 16px',
-                                            backgroundColor: '#0078d4',
-                                            color: '#fff',
+                                            backgroundColor: theme.primaryColor,
+                                            color: theme.primaryTextColor,
                                             border: 'none',
                                             borderRadius: '4px',
                                             cursor: 'pointer',
@@ -1597,9 +2494,9 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                             alignItems: 'center',
                                             gap: '4px'
                                         }}
-                                        title="Preview this voice"
+                                        title={t('previewTitle')}
                                     >
-                                        🔊 Preview
+                                        🔊 {t('preview')}
                                     </button>
                                 </div>
                             )}
@@ -1608,11 +2505,11 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     <div
                                         style={{
                                             fontSize: '11px',
-                                            color: '#605e5c',
+                                            color: theme.subtleTextColor,
                                             marginTop: '6px'
                                         }}
                                     >
-                                        Using:{' '}
+                                        {t('using')}{' '}
                                         {VOICE_PROFILES[voiceProfile]?.provider === 'openai'
                                             ? '🤖 OpenAI TTS'
                                             : '🔊 Azure Speech'}
@@ -1620,6 +2517,118 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                 )}
                         </div>
 
+                        {/* Recognition Language */}
+                        <div style={{ marginBottom: '20px' }}>
+                            <label
+                                style={{
+                                    display: 'block',
+                                    marginBottom: '8px',
+                                    fontSize: '14px',
+                                    fontWeight: '600',
+                                    color: theme.textColor
+                                }}
+                            >
+                                🗣️ {t('recognitionLanguage')}
+                            </label>
+                            <select
+                                value={recognitionLanguage}
+                                onChange={e => setRecognitionLanguage(e.target.value)}
+                                style={{
+                                    width: '100%',
+                                    padding: '10px',
+                                    fontSize: '14px',
+                                    border: `1px solid ${theme.borderColor}`,
+                                    borderRadius: '4px',
+                                    backgroundColor: theme.surfaceColor,
+                                    color: theme.textColor
+                                }}
+                            >
+                                <option value="">
+                                    {t('sameAsChatLanguage')} ({getSpeechLocale(locale)})
+                                </option>
+                                {SPEECH_LANGUAGES.map(language => (
+                                    <option key={language.locale} value={language.locale}>
+                                        {language.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {/* Voice Input Filter */}
+                        <div style={{ marginBottom: '20px' }}>
+                            <div
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'space-between',
+                                    marginBottom: '4px'
+                                }}
+                            >
+                                <span style={{ fontSize: '14px', fontWeight: '600', color: theme.textColor }}>
+                                    🎚️ {t('voiceInputFilter')}
+                                </span>
+                                <button
+                                    onClick={() => setUtteranceFilter(DEFAULT_UTTERANCE_FILTER)}
+                                    style={{
+                                        padding: 0,
+                                        backgroundColor: 'transparent',
+                                        color: theme.primaryColor,
+                                        border: 'none',
+                                        cursor: 'pointer',
+                                        fontSize: '12px'
+                                    }}
+                                >
+                                    {t('resetToDefaults')}
+                                </button>
+                            </div>
+                            <p style={{ margin: 0, marginBottom: '8px', fontSize: '12px', color: theme.subtleTextColor }}>
+                                {t('voiceInputFilterHint')}
+                            </p>
+                            {[
+                                {
+                                    key: 'minConfidence' as const,
+                                    label: t('minConfidence', { value: `${Math.round(utteranceFilter.minConfidence * 100)}%` }),
+                                    min: 0,
+                                    max: 0.9,
+                                    step: 0.05
+                                },
+                                {
+                                    key: 'minSpeechLevel' as const,
+                                    label: t('minSpeechLevel', {
+                                        value: utteranceFilter.minSpeechLevel > 0
+                                            ? `${(utteranceFilter.minSpeechLevel * 100).toFixed(1)}%`
+                                            : t('filterOff')
+                                    }),
+                                    min: 0,
+                                    max: 0.05,
+                                    step: 0.005
+                                },
+                                {
+                                    key: 'minLength' as const,
+                                    label: t('minUtteranceLength', { value: utteranceFilter.minLength }),
+                                    min: 1,
+                                    max: 10,
+                                    step: 1
+                                }
+                            ].map(slider => (
+                                <label
+                                    key={slider.key}
+                                    style={{ display: 'block', marginTop: '6px', fontSize: '12px', color: theme.textColor }}
+                                >
+                                    {slider.label}
+                                    <input
+                                        type="range"
+                                        min={slider.min}
+                                        max={slider.max}
+                                        step={slider.step}
+                                        value={utteranceFilter[slider.key]}
+                                        onChange={e => setUtteranceFilter({ ...utteranceFilter, [slider.key]: Number(e.target.value) })}
+                                        style={{ display: 'block', width: '100%', accentColor: theme.primaryColor }}
+                                    />
+                                </label>
+                            ))}
+                        </div>
+
                         {/* Audio Unlock Button */}
                         {!audioUnlocked && (
                             <div style={{ marginBottom: '20px' }}>
@@ -1628,8 +2637,8 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     style={{
                                         width: '100%',
                                         padding: '12px',
-                                        backgroundColor: '#107c10',
-                                        color: '#fff',
+                                        backgroundColor: theme.successColor,
+                                        color: theme.surfaceColor,
                                         border: 'none',
                                         borderRadius: '4px',
                                         cursor: 'pointer',
@@ -1640,19 +2649,19 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                         justifyContent: 'center',
                                         gap: '8px'
                                     }}
-                                    title="Required for audio on iOS/Android"
+                                    title={t('enableVoiceOutputTitle')}
                                 >
-                                    🔓 Enable Voice Output
+                                    🔓 {t('enableVoiceOutput')}
                                 </button>
                                 <div
                                     style={{
                                         fontSize: '12px',
-                                        color: '#605e5c',
+                                        color: theme.subtleTextColor,
                                         marginTop: '8px',
                                         textAlign: 'center'
                                     }}
                                 >
-                                    Tap to enable voice output on mobile devices
+                                    {t('enableVoiceOutputHint')}
                                 </div>
                             </div>
                         )}
@@ -1662,13 +2671,13 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                 style={{
                                     marginBottom: '20px',
                                     padding: '12px',
-                                    backgroundColor: '#f3f2f1',
+                                    backgroundColor: theme.backgroundColor,
                                     borderRadius: '4px',
                                     fontSize: '14px',
-                                    color: '#107c10'
+                                    color: theme.successColor
                                 }}
                             >
-                                ✅ Voice output enabled
+                                ✅ {t('voiceOutputEnabled')}
                             </div>
                         )}
 
@@ -1687,24 +2696,26 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     checked={!isMuted}
                                     onChange={() => setIsMuted(!isMuted)}
                                     style={{
-                                        marginRight: '8px',
+                                        marginInlineEnd: '8px',
                                         width: '18px',
                                         height: '18px',
                                         cursor: 'pointer'
                                     }}
                                 />
-                                <span style={{ fontWeight: '600', color: '#323130' }}>
-                                    🔊 Auto-Speak Responses
+                                <span style={{ fontWeight: '600', color: theme.textColor }}>
+                                    🔊 {t('autoSpeak')}
                                 </span>
                             </label>
                             <p
                                 style={{
-                                    margin: '4px 0 0 26px',
+                                    margin: 0,
+                                    marginTop: '4px',
+                                    marginInlineStart: '26px',
                                     fontSize: '12px',
-                                    color: '#605e5c'
+                                    color: theme.subtleTextColor
                                 }}
                             >
-                                Automatically read bot responses aloud
+                                {t('autoSpeakHint')}
                             </p>
                         </div>
 
@@ -1723,22 +2734,24 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     checked={thinkingSoundEnabled}
                                     onChange={() => setThinkingSoundEnabled(!thinkingSoundEnabled)}
                                     style={{
-                                        marginRight: '8px',
+                                        marginInlineEnd: '8px',
                                         width: '18px',
                                         height: '18px',
                                         cursor: 'pointer'
                                     }}
                                 />
-                                <span style={{ fontWeight: '600', color: '#323130' }}>🔔 Thinking Sound</span>
+                                <span style={{ fontWeight: '600', color: theme.textColor }}>🔔 {t('thinkingSound')}</span>
                             </label>
                             <p
                                 style={{
-                                    margin: '4px 0 0 26px',
+                                    margin: 0,
+                                    marginTop: '4px',
+                                    marginInlineStart: '26px',
                                     fontSize: '12px',
-                                    color: '#605e5c'
+                                    color: theme.subtleTextColor
                                 }}
                             >
-                                Play a subtle ping while waiting for response
+                                {t('thinkingSoundHint')}
                             </p>
                         </div>
 
@@ -1757,24 +2770,107 @@ const ChatWindow: React.FC<ChatWindowProps> = ({
                                     checked={drivingMode}
                                     onChange={() => setDrivingMode(!drivingMode)}
                                     style={{
-                                        marginRight: '8px',
+                                        marginInlineEnd: '8px',
                                         width: '18px',
                                         height: '18px',
                                         cursor: 'pointer'
                                     }}
                                 />
-                                <span style={{ fontWeight: '600', color: '#323130' }}>🚗 Driving Mode</span>
+                                <span style={{ fontWeight: '600', color: theme.textColor }}>🚗 {t('drivingMode')}</span>
                             </label>
                             <p
                                 style={{
-                                    margin: '4px 0 0 26px',
+                                    margin: 0,
+                                    marginTop: '4px',
+                                    marginInlineStart: '26px',
                                     fontSize: '12px',
-                                    color: '#605e5c'
+                                    color: theme.subtleTextColor
                                 }}
                             >
-                                Always-on voice - mic auto-activates when not playing
+                                {t('drivingModeHint')}
                             </p>
                         </div>
+
+                        {/* Wake Phrase */}
+                        {wakePhrase && (
+                            <div style={{ marginTop: '20px', marginBottom: '10px' }}>
+                                <label
+                                    style={{
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        fontSize: '14px',
+                                        cursor: wakePhraseModel ? 'pointer' : 'default'
+                                    }}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={isWakePhraseActive}
+                                        disabled={!wakePhraseModel}
+                                        onChange={() => setWakePhraseEnabled(!wakePhraseEnabled)}
+                                        style={{
+                                            marginInlineEnd: '8px',
+                                            width: '18px',
+                                            height: '18px',
+                                            cursor: wakePhraseModel ? 'pointer' : 'default'
+                                        }}
+                                    />
+                                    <span style={{ fontWeight: '600', color: theme.textColor }}>
+                                        👂 {t('wakePhraseListen', { phrase: wakePhrase })}
+                                    </span>
+                                </label>
+                                <p
+                                    style={{
+                                        margin: 0,
+                                        marginTop: '4px',
+                                        marginInlineStart: '26px',
+                                        fontSize: '12px',
+                                        color: theme.subtleTextColor
+                                    }}
+                                >
+                                    {t('wakePhraseHint')}
+                                </p>
+                                <div
+                                    style={{
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '8px',
+                                        marginTop: '8px',
+                                        marginInlineStart: '26px'
+                                    }}
+                                >
+                                    <button
+                                        onClick={() => void recordWakePhrase()}
+                                        disabled={wakePhraseSample !== null}
+                                        style={{
+                                            padding: '6px 12px',
+                                            backgroundColor: theme.backgroundColor,
+                                            color: theme.textColor,
+                                            border: `1px solid ${theme.borderColor}`,
+                                            borderRadius: '4px',
+                                            cursor: wakePhraseSample !== null ? 'default' : 'pointer',
+                                            fontSize: '13px'
+                                        }}
+                                    >
+                                        🎙️ {wakePhraseModel ? t('wakePhraseRecordAgain') : t('wakePhraseRecord')}
+                                    </button>
+                                    <span
+                                        role="status"
+                                        style={{
+                                            fontSize: '12px',
+                                            color: wakePhraseError ? theme.errorColor : theme.subtleTextColor
+                                        }}
+                                    >
+                                        {wakePhraseSample !== null
+                                            ? t('wakePhraseRecording', { phrase: wakePhrase, count: wakePhraseSample, total: WAKE_PHRASE_SAMPLES })
+                                            : wakePhraseError
+                                                ? t('wakePhraseRecordFailed')
+                                                : wakePhraseModel
+                                                    ? `✅ ${t('wakePhraseRecorded')}`
+                                                    : t('wakePhraseNotRecorded', { total: WAKE_PHRASE_SAMPLES })}
+                                    </span>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
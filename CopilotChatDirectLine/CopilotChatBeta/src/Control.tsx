@@ -4,13 +4,17 @@
 
 import React from 'react';
 import { getDirectLineToken } from './utils/auth';
-import { CopilotChatService } from './services/CopilotChatService';
+import { CopilotChatService, SessionStatus } from './services/CopilotChatService';
 import ChatWindow from './ChatWindow';
 import {
     saveConversationState,
     loadConversationState,
     clearConversationState
 } from './utils/storage';
+import { parseThemeName, resolveTheme } from './utils/theme';
+import { useColorScheme } from './useColorScheme';
+import { createTranslator, resolveLocale } from './utils/i18n';
+import { parseSpeechToTextProvider } from './services/speechRecognition';
 
 // PCF Property interface
 interface PropertyValue<T> {
@@ -20,14 +24,31 @@ interface PropertyValue<T> {
 export interface ControlProps {
     DirectLineSecret?: PropertyValue<string>;
     DirectLineEndpoint?: PropertyValue<string>;
+    TokenEndpoint?: PropertyValue<string>;
+    AllowSecretInBrowser?: PropertyValue<boolean>;
     SpeechKey?: PropertyValue<string>;
     SpeechRegion?: PropertyValue<string>;
     OpenAIEndpoint?: PropertyValue<string>;
     OpenAIKey?: PropertyValue<string>;
     OpenAIDeployment?: PropertyValue<string>;
+    WhisperDeployment?: PropertyValue<string>;
+    SpeechToTextProvider?: PropertyValue<string>;
+    WakePhrase?: PropertyValue<string>;
+    AutoSendDelay?: PropertyValue<number>;
+    ConfirmBeforeSend?: PropertyValue<boolean>;
     ModalTitle?: PropertyValue<string>;
     EnableAttachments?: PropertyValue<boolean>;
     AttachmentIcon?: PropertyValue<string>;
+    LatestCardOnly?: PropertyValue<boolean>;
+    Theme?: PropertyValue<string>;
+    ThemeJson?: PropertyValue<string>;
+    PrimaryColor?: PropertyValue<string>;
+    BackgroundColor?: PropertyValue<string>;
+    FontFamily?: PropertyValue<string>;
+    FontSize?: PropertyValue<number>;
+    CornerRadius?: PropertyValue<number>;
+    Locale?: PropertyValue<string>;
+    userLanguageId?: number;    // PCF user language (LCID), used when Locale is empty
 }
 
 const ChatDirectLineControl: React.FC<ControlProps> = (props) => {
@@ -35,36 +56,66 @@ const ChatDirectLineControl: React.FC<ControlProps> = (props) => {
     const [error, setError] = React.useState<string | null>(null);
     const [isInitializing, setIsInitializing] = React.useState(true);
     const [isReconnected, setIsReconnected] = React.useState(false);
+    const [sessionStatus, setSessionStatus] = React.useState<SessionStatus>('active');
+    const [reconnectCount, setReconnectCount] = React.useState(0);
+
+    const locale = resolveLocale(props.Locale?.raw || undefined, props.userLanguageId);
+    const t = React.useMemo(() => createTranslator(locale), [locale]);
+
+    // Connection settings by value - the property wrappers are rebuilt on every updateView
+    const tokenEndpoint = props.TokenEndpoint?.raw || undefined;
+    const secret = props.DirectLineSecret?.raw || undefined;
+    const allowSecret = props.AllowSecretInBrowser?.raw === true;
+    const endpoint = props.DirectLineEndpoint?.raw || undefined;
 
     React.useEffect(() => {
+        let activeService: CopilotChatService | null = null;
+        // Set once this run is superseded; a late service is then closed instead of used
+        let cancelled = false;
+
         const initializeChat = async (): Promise<void> => {
             console.log('=== CONTROL INITIALIZING ===');
-            console.log('DirectLineSecret:', props.DirectLineSecret ? 'Present' : 'Missing');
-            console.log('DirectLineEndpoint:', props.DirectLineEndpoint?.raw || 'Using default');
+            console.log('TokenEndpoint:', tokenEndpoint ? 'Present' : 'Missing');
+            console.log('DirectLineSecret:', secret ? 'Present' : 'Missing');
+            console.log('AllowSecretInBrowser:', allowSecret);
+            console.log('DirectLineEndpoint:', endpoint || 'Using default');
             console.log('SpeechKey:', props.SpeechKey ? 'Present' : 'Missing (will use browser voices)');
             console.log('SpeechRegion:', props.SpeechRegion?.raw || 'Not configured');
 
             try {
-                const secret = props.DirectLineSecret?.raw;
-                if (!secret) {
-                    console.error('Direct Line secret is missing!');
-                    setError('Direct Line secret is required');
+                if (!tokenEndpoint && !secret) {
+                    console.error('Token endpoint and Direct Line secret are both missing!');
+                    setError(t('tokenRequired'));
                     setIsInitializing(false);
                     return;
                 }
 
                 console.log('Getting Direct Line token...');
-                const token = await getDirectLineToken(secret);
-                console.log('Token received:', token.substring(0, 20) + '...');
+                const directLineToken = await getDirectLineToken({
+                    tokenEndpoint,
+                    secret,
+                    allowSecret,
+                    directLineEndpoint: endpoint
+                });
+                if (cancelled) {
+                    return;
+                }
+                console.log('Token received, expires in', directLineToken.expiresIn, 'seconds');
 
-                const endpoint = props.DirectLineEndpoint?.raw || undefined;
                 console.log('Creating CopilotChatService with endpoint:', endpoint || 'default');
 
-                const service = new CopilotChatService(token, endpoint);
+                const service = new CopilotChatService(directLineToken, endpoint);
+                activeService = service;
+                service.setLocale(locale);
+
+                // Surface token expiry so the user can reconnect
+                service.setSessionStatusCallback(status => {
+                    setSessionStatus(status);
+                });
 
                 // Set up state change callback for persistence
-                service.setStateChangeCallback((conversationId, watermark) => {
-                    saveConversationState(conversationId, watermark);
+                service.setStateChangeCallback((conversationId, watermark, token, tokenExpiresAt) => {
+                    saveConversationState(conversationId, watermark, token, tokenExpiresAt);
                 });
 
                 // Try to reconnect to existing conversation
@@ -75,7 +126,10 @@ const ChatDirectLineControl: React.FC<ControlProps> = (props) => {
                     console.log('🔄 Found saved conversation, attempting reconnection...');
                     reconnected = await service.reconnectConversation(
                         savedState.conversationId,
-                        savedState.watermark
+                        savedState.watermark,
+                        savedState.token && savedState.tokenExpiresAt
+                            ? { token: savedState.token, expiresAt: savedState.tokenExpiresAt }
+                            : undefined
                     );
                     if (!reconnected) {
                         console.log('⚠️ Reconnection failed, clearing saved state');
@@ -87,28 +141,90 @@ const ChatDirectLineControl: React.FC<ControlProps> = (props) => {
                     console.log('Starting new conversation...');
                     await service.startConversation();
                     console.log('Conversation started successfully');
+                    // Messages queued for the old conversation go to the new one
+                    void service.drainOutbox();
                 } else {
                     console.log('✅ Reconnected to existing conversation');
                 }
 
+                if (cancelled) {
+                    console.log('⚠️ Settings changed while connecting, closing stale service');
+                    service.disconnect();
+                    return;
+                }
+
                 setIsReconnected(reconnected);
+                setSessionStatus(service.getSessionStatus());
                 setChatService(service);
                 setIsInitializing(false);
                 console.log('=== CONTROL READY ===');
             } catch (err) {
+                activeService?.disconnect();
+                if (cancelled) {
+                    return;
+                }
                 console.error('Failed to initialize chat:', err);
                 setError(err instanceof Error ? err.message : 'Failed to initialize chat');
                 setIsInitializing(false);
             }
         };
 
-        initializeChat();
-    }, [props.DirectLineSecret, props.DirectLineEndpoint]);
+        void initializeChat().catch(err => {
+            if (cancelled) {
+                return;
+            }
+            console.error('Failed to initialize chat:', err);
+            setError(err instanceof Error ? err.message : 'Failed to initialize chat');
+            setIsInitializing(false);
+        });
+
+        // Close the activity stream when the service is replaced or the control unmounts
+        return () => {
+            cancelled = true;
+            activeService?.disconnect();
+        };
+    }, [tokenEndpoint, secret, allowSecret, endpoint, reconnectCount]);
+
+    // Keep outgoing activities in step with a Locale change
+    React.useEffect(() => {
+        chatService?.setLocale(locale);
+    }, [chatService, locale]);
+
+    const themeName = parseThemeName(props.Theme?.raw || undefined);
+    const systemScheme = useColorScheme(themeName === 'auto');
+
+    // Rebuild only when a theme property actually changes, so cards aren't re-rendered on every update
+    const theme = React.useMemo(() => resolveTheme({
+        preset: themeName === 'auto' ? systemScheme : themeName,
+        themeJson: props.ThemeJson?.raw || undefined,
+        primaryColor: props.PrimaryColor?.raw || undefined,
+        backgroundColor: props.BackgroundColor?.raw || undefined,
+        fontFamily: props.FontFamily?.raw || undefined,
+        fontSize: props.FontSize?.raw ?? undefined,
+        cornerRadius: props.CornerRadius?.raw ?? undefined
+    }), [
+        themeName,
+        systemScheme,
+        props.ThemeJson?.raw,
+        props.PrimaryColor?.raw,
+        props.BackgroundColor?.raw,
+        props.FontFamily?.raw,
+        props.FontSize?.raw,
+        props.CornerRadius?.raw
+    ]);
+
+    const handleReconnect = (): void => {
+        console.log('🔄 Reconnecting after session expiry...');
+        setChatService(null);
+        setError(null);
+        setIsInitializing(true);
+        setReconnectCount(count => count + 1);
+    };
 
     if (isInitializing) {
         return (
             <div style={{ padding: '20px', textAlign: 'center' }}>
-                Initializing chat...
+                {t('initializing')}
             </div>
         );
     }
@@ -116,7 +232,7 @@ const ChatDirectLineControl: React.FC<ControlProps> = (props) => {
     if (error) {
         return (
             <div style={{ padding: '20px', color: 'red' }}>
-                Error: {error}
+                {t('errorMessage', { message: error })}
             </div>
         );
     }
@@ -124,24 +240,72 @@ const ChatDirectLineControl: React.FC<ControlProps> = (props) => {
     if (!chatService) {
         return (
             <div style={{ padding: '20px' }}>
-                Chat service not available
+                {t('serviceUnavailable')}
             </div>
         );
     }
 
     return (
-        <ChatWindow
-            chatService={chatService}
-            speechKey={props.SpeechKey?.raw || undefined}
-            speechRegion={props.SpeechRegion?.raw || undefined}
-            openAIEndpoint={props.OpenAIEndpoint?.raw || undefined}
-            openAIKey={props.OpenAIKey?.raw || undefined}
-            openAIDeployment={props.OpenAIDeployment?.raw || 'tts'}
-            isReconnected={isReconnected}
-            modalTitle={props.ModalTitle?.raw || undefined}
-            enableAttachments={props.EnableAttachments?.raw === true}
-            attachmentIcon={(props.AttachmentIcon?.raw as 'paperclip' | 'camera' | 'document' | 'plus') || 'paperclip'}
-        />
+        <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+            {sessionStatus === 'expired' && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        top: 0,
+                        left: 0,
+                        right: 0,
+                        zIndex: 200,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        gap: '12px',
+                        padding: '10px 16px',
+                        backgroundColor: theme.warningBackgroundColor,
+                        borderBottom: `1px solid ${theme.warningColor}`,
+                        fontSize: '14px',
+                        color: theme.textColor,
+                        fontFamily: theme.fontFamily
+                    }}
+                >
+                    <span>⏰ {t('sessionExpired')}</span>
+                    <button
+                        onClick={handleReconnect}
+                        style={{
+                            padding: '6px 12px',
+                            backgroundColor: theme.primaryColor,
+                            color: theme.primaryTextColor,
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                            fontSize: '14px',
+                            fontWeight: '600'
+                        }}
+                    >
+                        {t('reconnect')}
+                    </button>
+                </div>
+            )}
+            <ChatWindow
+                chatService={chatService}
+                speechKey={props.SpeechKey?.raw || undefined}
+                speechRegion={props.SpeechRegion?.raw || undefined}
+                openAIEndpoint={props.OpenAIEndpoint?.raw || undefined}
+                openAIKey={props.OpenAIKey?.raw || undefined}
+                openAIDeployment={props.OpenAIDeployment?.raw || 'tts'}
+                whisperDeployment={props.WhisperDeployment?.raw || 'whisper'}
+                speechToTextProvider={parseSpeechToTextProvider(props.SpeechToTextProvider?.raw || undefined)}
+                wakePhrase={props.WakePhrase?.raw?.trim() || undefined}
+                autoSendDelay={props.AutoSendDelay?.raw ?? undefined}
+                confirmBeforeSend={props.ConfirmBeforeSend?.raw === true}
+                isReconnected={isReconnected}
+                modalTitle={props.ModalTitle?.raw || undefined}
+                enableAttachments={props.EnableAttachments?.raw === true}
+                attachmentIcon={(props.AttachmentIcon?.raw as 'paperclip' | 'camera' | 'document' | 'plus') || 'paperclip'}
+                latestCardOnly={props.LatestCardOnly?.raw === true}
+                theme={theme}
+                locale={locale}
+            />
+        </div>
     );
 };
 
@@ -4,6 +4,8 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import React from 'react';
+import { ChatTheme, DEFAULT_THEME } from './utils/theme';
+import { createTranslator } from './utils/i18n';
 
 export interface DrivingModeModalProps {
     isListening: boolean;
@@ -18,6 +20,9 @@ export interface DrivingModeModalProps {
     onClose: () => void;
     onNewConversation: () => void;
     modalTitle?: string;
+    wakePhrase?: string;    // Set while the wake phrase is being listened for
+    theme?: ChatTheme;
+    locale?: string;
 }
 
 const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
@@ -32,38 +37,43 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
     onStopClick,
     onClose,
     onNewConversation,
-    modalTitle
+    modalTitle,
+    wakePhrase,
+    theme = DEFAULT_THEME,
+    locale = 'en-US'
 }) => {
+    const t = React.useMemo(() => createTranslator(locale), [locale]);
+
     const getStatusText = (): string => {
         if (isPlaying) {
-            return 'Playing response - Tap to stop';
+            return t('statusPlaying');
         }
         if (isSending) {
-            return 'Sending...';
+            return t('sending');
         }
         if (isWaitingForResponse) {
-            return 'Copilot is responding... (mic paused)';
+            return t('statusWaiting');
         }
         if (isListening) {
-            return 'Listening... speak now';
+            return t('statusListening');
         }
-        return 'Tap mic to start listening';
+        return wakePhrase ? t('statusWakePhrase', { phrase: wakePhrase }) : t('statusIdle');
     };
 
     const getMicColor = (): string => {
         if (isPlaying) {
-            return '#d13438';  // Red - playing
+            return theme.errorColor;    // Red - playing
         }
         if (isListening) {
-            return '#107c10';  // Green - listening
+            return theme.successColor;  // Green - listening
         }
         if (isWaitingForResponse) {
-            return '#0078d4';  // Blue - waiting for bot
+            return theme.primaryColor;  // Blue - waiting for bot
         }
         if (isSending) {
-            return '#8a8886';  // Gray - processing
+            return theme.disabledColor; // Gray - processing
         }
-        return '#0078d4';  // Blue - idle/starting
+        return theme.primaryColor;  // Blue - idle/starting
     };
 
     const getMicIcon = (): string => {
@@ -92,8 +102,9 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
         >
             <div
                 style={{
-                    backgroundColor: '#fff',
-                    borderRadius: '12px',
+                    backgroundColor: theme.surfaceColor,
+                    fontFamily: theme.fontFamily,
+                    borderRadius: `${theme.cornerRadius}px`,
                     padding: '20px 16px',
                     maxWidth: '340px',
                     width: 'calc(100% - 32px)',
@@ -115,16 +126,16 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                             margin: 0,
                             fontSize: '16px',
                             fontWeight: '600',
-                            color: '#323130',
+                            color: theme.textColor,
                             marginBottom: '2px'
                         }}
                     >
-                        {modalTitle || 'Copilot Assistant'}
+                        {modalTitle || t('assistantTitle')}
                     </h2>
                     <div
                         style={{
                             fontSize: '11px',
-                            color: isListening ? '#107c10' : '#0078d4',
+                            color: isListening ? theme.successColor : theme.primaryColor,
                             display: 'flex',
                             alignItems: 'center',
                             justifyContent: 'center',
@@ -135,7 +146,7 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                             {isListening ? '🎙️' : isPlaying ? '🔊' : '🚗'}
                         </span>
                         <span>
-                            {isListening ? 'Listening...' : isPlaying ? 'Speaking...' : 'Always-On Voice'}
+                            {isListening ? t('listening') : isPlaying ? t('speaking') : t('alwaysOnVoice')}
                         </span>
                     </div>
                 </div>
@@ -153,7 +164,7 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                         borderRadius: '50%',
                         border: 'none',
                         backgroundColor: getMicColor(),
-                        color: '#fff',
+                        color: theme.surfaceColor,
                         fontSize: '48px',
                         cursor: isSending ? 'not-allowed' : 'pointer',
                         boxShadow: isListening || isPlaying
@@ -187,7 +198,7 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                         style={{
                             margin: 0,
                             fontSize: '12px',
-                            color: '#605e5c',
+                            color: theme.subtleTextColor,
                             fontWeight: '500'
                         }}
                     >
@@ -201,7 +212,7 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                         style={{
                             width: '100%',
                             padding: '10px 12px',
-                            backgroundColor: '#e1dfdd',
+                            backgroundColor: theme.backgroundColor,
                             borderRadius: '8px',
                             minHeight: '32px',
                             maxHeight: '80px',
@@ -216,18 +227,18 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                             style={{
                                 margin: 0,
                                 fontSize: '10px',
-                                color: '#605e5c',
+                                color: theme.subtleTextColor,
                                 marginBottom: '2px',
                                 fontWeight: '600'
                             }}
                         >
-                            You said:
+                            {t('youSaid')}
                         </p>
                         <p
                             style={{
                                 margin: 0,
                                 fontSize: '12px',
-                                color: '#323130',
+                                color: theme.textColor,
                                 fontStyle: isListening ? 'italic' : 'normal',
                                 opacity: isListening ? 0.7 : 1,
                                 lineHeight: '1.3'
@@ -244,7 +255,7 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                         style={{
                             width: '100%',
                             padding: '10px 12px',
-                            backgroundColor: '#0078d4',
+                            backgroundColor: theme.primaryColor,
                             borderRadius: '8px',
                             minHeight: '32px',
                             maxHeight: '100px',
@@ -260,18 +271,19 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                             style={{
                                 margin: 0,
                                 fontSize: '10px',
-                                color: 'rgba(255,255,255,0.8)',
+                                color: theme.primaryTextColor,
+                                opacity: 0.8,
                                 marginBottom: '2px',
                                 fontWeight: '600'
                             }}
                         >
-                            Copilot:
+                            {t('copilotSaid')}
                         </p>
                         <p
                             style={{
                                 margin: 0,
                                 fontSize: '12px',
-                                color: '#fff',
+                                color: theme.primaryTextColor,
                                 lineHeight: '1.3'
                             }}
                         >
@@ -309,9 +321,9 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                         style={{
                             flex: 1,
                             padding: '10px 12px',
-                            backgroundColor: '#f3f2f1',
-                            color: '#323130',
-                            border: '1px solid #8a8886',
+                            backgroundColor: theme.backgroundColor,
+                            color: theme.textColor,
+                            border: `1px solid ${theme.borderColor}`,
                             borderRadius: '6px',
                             cursor: 'pointer',
                             fontSize: '13px',
@@ -321,17 +333,17 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                             justifyContent: 'center',
                             gap: '5px'
                         }}
-                        title="Start a new conversation"
+                        title={t('newConversationTitle')}
                     >
-                        🔄 New Chat
+                        🔄 {t('newChat')}
                     </button>
                     <button
                         onClick={onClose}
                         style={{
                             flex: 1,
                             padding: '10px 12px',
-                            backgroundColor: '#0078d4',
-                            color: '#fff',
+                            backgroundColor: theme.primaryColor,
+                            color: theme.primaryTextColor,
                             border: 'none',
                             borderRadius: '6px',
                             cursor: 'pointer',
@@ -342,9 +354,9 @@ const DrivingModeModal: React.FC<DrivingModeModalProps> = ({
                             justifyContent: 'center',
                             gap: '5px'
                         }}
-                        title="Close driving mode"
+                        title={t('closeDrivingModeTitle')}
                     >
-                        ✕ Close
+                        ✕ {t('close')}
                     </button>
                 </div>
             </div>
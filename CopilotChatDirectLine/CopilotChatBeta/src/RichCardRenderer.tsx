@@ -0,0 +1,258 @@
+/**
+ * RichCardRenderer - Renders Bot Framework hero, thumbnail, receipt and media cards
+ */
+
+import React from 'react';
+import { DirectLineCardAction } from './services/CopilotChatService';
+import {
+    BasicCardContent,
+    MediaCardContent,
+    ReceiptCardContent,
+    RichCardKind
+} from './utils/richCards';
+import { ChatTheme, DEFAULT_THEME } from './utils/theme';
+import { createTranslator, Translate } from './utils/i18n';
+
+export interface RichCardRendererProps {
+    kind: RichCardKind;
+    content: unknown;
+    onAction: (action: DirectLineCardAction) => void;
+    theme?: ChatTheme;
+    locale?: string;
+}
+
+// Props shared by every card layout
+interface CardProps<T> {
+    card: T;
+    theme: ChatTheme;
+    onAction: (action: DirectLineCardAction) => void;
+}
+
+const getCardStyle = (theme: ChatTheme): React.CSSProperties => ({
+    margin: '8px 0',
+    border: `1px solid ${theme.dividerColor}`,
+    borderRadius: `${theme.cornerRadius}px`,
+    overflow: 'hidden',
+    backgroundColor: theme.surfaceColor,
+    maxWidth: '100%'
+});
+
+const CardText: React.FC<{ title?: string; subtitle?: string; text?: string; theme: ChatTheme }> = ({ title, subtitle, text, theme }) => (
+    <>
+        {title && <div style={{ fontSize: `${theme.fontSize + 1}px`, fontWeight: '600', color: theme.textColor }}>{title}</div>}
+        {subtitle && <div style={{ fontSize: `${theme.fontSize - 1}px`, color: theme.subtleTextColor, marginTop: '2px' }}>{subtitle}</div>}
+        {text && <div style={{ fontSize: `${theme.fontSize}px`, color: theme.textColor, marginTop: '6px' }}>{text}</div>}
+    </>
+);
+
+const CardButtons: React.FC<{
+    buttons?: DirectLineCardAction[];
+    theme: ChatTheme;
+    onAction: (action: DirectLineCardAction) => void;
+}> = ({ buttons, theme, onAction }) => {
+    if (!buttons || buttons.length === 0) {
+        return null;
+    }
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', padding: '0 12px 12px' }}>
+            {buttons.map((button, index) => (
+                <button
+                    key={`${button.type}-${index}`}
+                    onClick={event => {
+                        event.stopPropagation();
+                        onAction(button);
+                    }}
+                    style={{
+                        padding: '8px 12px',
+                        backgroundColor: theme.surfaceColor,
+                        color: theme.primaryColor,
+                        border: `1px solid ${theme.primaryColor}`,
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontSize: `${theme.fontSize}px`,
+                        fontWeight: '600'
+                    }}
+                >
+                    {button.title || button.displayText || button.text}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+// Whole-card click target, used for the card's tap action
+const tapProps = (
+    tap: DirectLineCardAction | undefined,
+    theme: ChatTheme,
+    onAction: (action: DirectLineCardAction) => void
+): React.HTMLAttributes<HTMLDivElement> =>
+    tap
+        ? { onClick: () => onAction(tap), style: { ...getCardStyle(theme), cursor: 'pointer' }, role: 'button' }
+        : { style: getCardStyle(theme) };
+
+const HeroCard: React.FC<CardProps<BasicCardContent>> = ({ card, theme, onAction }) => (
+    <div {...tapProps(card.tap, theme, onAction)}>
+        {card.images && card.images.length > 0 && (
+            <img
+                src={card.images[0].url}
+                alt={card.images[0].alt || card.title || ''}
+                style={{ width: '100%', display: 'block' }}
+            />
+        )}
+        <div style={{ padding: '12px' }}>
+            <CardText title={card.title} subtitle={card.subtitle} text={card.text} theme={theme} />
+        </div>
+        <CardButtons buttons={card.buttons} theme={theme} onAction={onAction} />
+    </div>
+);
+
+const ThumbnailCard: React.FC<CardProps<BasicCardContent>> = ({ card, theme, onAction }) => (
+    <div {...tapProps(card.tap, theme, onAction)}>
+        <div style={{ display: 'flex', gap: '12px', padding: '12px' }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+                <CardText title={card.title} subtitle={card.subtitle} text={card.text} theme={theme} />
+            </div>
+            {card.images && card.images.length > 0 && (
+                <img
+                    src={card.images[0].url}
+                    alt={card.images[0].alt || card.title || ''}
+                    style={{ width: '80px', height: '80px', objectFit: 'cover', borderRadius: '4px', flexShrink: 0 }}
+                />
+            )}
+        </div>
+        <CardButtons buttons={card.buttons} theme={theme} onAction={onAction} />
+    </div>
+);
+
+const ReceiptCard: React.FC<CardProps<ReceiptCardContent> & { t: Translate }> = ({ card, theme, onAction, t }) => {
+    const rowStyle: React.CSSProperties = {
+        display: 'flex',
+        justifyContent: 'space-between',
+        gap: '12px',
+        fontSize: `${theme.fontSize}px`,
+        color: theme.textColor
+    };
+
+    return (
+        <div {...tapProps(card.tap, theme, onAction)}>
+            <div style={{ padding: '12px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                {card.title && <div style={{ fontSize: `${theme.fontSize + 1}px`, fontWeight: '600', color: theme.textColor }}>{card.title}</div>}
+                {card.facts?.map((fact, index) => (
+                    <div key={`fact-${index}`} style={{ ...rowStyle, color: theme.subtleTextColor, fontSize: `${theme.fontSize - 1}px` }}>
+                        <span>{fact.key}</span>
+                        <span>{fact.value}</span>
+                    </div>
+                ))}
+                {card.items && card.items.length > 0 && (
+                    <div style={{ borderTop: `1px solid ${theme.dividerColor}`, paddingTop: '6px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                        {card.items.map((item, index) => (
+                            <div
+                                key={`item-${index}`}
+                                style={{ ...rowStyle, cursor: item.tap ? 'pointer' : 'default' }}
+                                onClick={item.tap ? event => {
+                                    event.stopPropagation();
+                                    onAction(item.tap!);
+                                } : undefined}
+                            >
+                                <span style={{ display: 'flex', alignItems: 'center', gap: '8px', minWidth: 0 }}>
+                                    {item.image && (
+                                        <img
+                                            src={item.image.url}
+                                            alt={item.image.alt || item.title || ''}
+                                            style={{ width: '32px', height: '32px', objectFit: 'cover', borderRadius: '4px' }}
+                                        />
+                                    )}
+                                    <span>
+                                        {item.quantity && `${item.quantity} × `}{item.title}
+                                        {item.subtitle && (
+                                            <span style={{ display: 'block', fontSize: `${theme.fontSize - 2}px`, color: theme.subtleTextColor }}>{item.subtitle}</span>
+                                        )}
+                                    </span>
+                                </span>
+                                <span>{item.price}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {(card.tax || card.vat || card.total) && (
+                    <div style={{ borderTop: `1px solid ${theme.dividerColor}`, paddingTop: '6px', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                        {card.tax && <div style={rowStyle}><span>{t('tax')}</span><span>{card.tax}</span></div>}
+                        {card.vat && <div style={rowStyle}><span>{t('vat')}</span><span>{card.vat}</span></div>}
+                        {card.total && (
+                            <div style={{ ...rowStyle, fontWeight: '600' }}>
+                                <span>{t('total')}</span>
+                                <span>{card.total}</span>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+            <CardButtons buttons={card.buttons} theme={theme} onAction={onAction} />
+        </div>
+    );
+};
+
+const MediaCard: React.FC<CardProps<MediaCardContent> & { kind: 'animation' | 'audio' | 'video' }> = ({ kind, card, theme, onAction }) => {
+    const url = card.media && card.media.length > 0 ? card.media[0].url : undefined;
+    const mediaStyle: React.CSSProperties = { width: '100%', display: 'block' };
+
+    // Media never autostarts - it would talk over spoken responses
+    let player: React.ReactNode = null;
+    if (url && kind === 'audio') {
+        player = <audio src={url} controls loop={card.autoloop} style={{ width: '100%', display: 'block' }} />;
+    } else if (url && kind === 'animation' && /\.gif($|\?)/i.test(url)) {
+        player = <img src={url} alt={card.title || ''} style={mediaStyle} />;
+    } else if (url) {
+        player = (
+            <video
+                src={url}
+                poster={card.image?.url}
+                controls={kind === 'video'}
+                muted={kind === 'animation'}
+                loop={kind === 'animation' || card.autoloop}
+                autoPlay={kind === 'animation'}
+                playsInline
+                style={mediaStyle}
+            />
+        );
+    } else if (card.image) {
+        player = <img src={card.image.url} alt={card.image.alt || card.title || ''} style={mediaStyle} />;
+    }
+
+    return (
+        <div style={getCardStyle(theme)}>
+            {player && <div style={{ padding: kind === 'audio' ? '12px 12px 0' : 0 }}>{player}</div>}
+            {(card.title || card.subtitle || card.text) && (
+                <div style={{ padding: '12px' }}>
+                    <CardText title={card.title} subtitle={card.subtitle} text={card.text} theme={theme} />
+                </div>
+            )}
+            <CardButtons buttons={card.buttons} theme={theme} onAction={onAction} />
+        </div>
+    );
+};
+
+const RichCardRenderer: React.FC<RichCardRendererProps> = ({ kind, content, onAction, theme = DEFAULT_THEME, locale = 'en-US' }) => {
+    const t = React.useMemo(() => createTranslator(locale), [locale]);
+
+    if (!content) {
+        return null;
+    }
+
+    switch (kind) {
+        case 'hero':
+            return <HeroCard card={content} theme={theme} onAction={onAction} />;
+        case 'thumbnail':
+            return <ThumbnailCard card={content} theme={theme} onAction={onAction} />;
+        case 'receipt':
+            return <ReceiptCard card={content} theme={theme} onAction={onAction} t={t} />;
+        case 'animation':
+        case 'audio':
+        case 'video':
+            return <MediaCard kind={kind} card={content} theme={theme} onAction={onAction} />;
+        default:
+            return null;
+    }
+};
+
+export default RichCardRenderer;
@@ -0,0 +1,78 @@
+/**
+ * SuggestedActions - Quick reply chips shown under the latest bot message
+ */
+
+import React from 'react';
+import { DirectLineCardAction } from './services/CopilotChatService';
+import { ChatTheme, DEFAULT_THEME } from './utils/theme';
+
+export interface SuggestedActionsProps {
+    actions: DirectLineCardAction[];
+    onAction: (action: DirectLineCardAction) => void;
+    disabled?: boolean;
+    theme?: ChatTheme;
+}
+
+/**
+ * Label shown on a chip (and spoken in Driving Mode)
+ */
+export const getActionTitle = (action: DirectLineCardAction): string =>
+    action.title || action.displayText || action.text || (typeof action.value === 'string' ? action.value : '');
+
+const SuggestedActions: React.FC<SuggestedActionsProps> = ({
+    actions,
+    onAction,
+    disabled = false,
+    theme = DEFAULT_THEME
+}) => {
+    if (actions.length === 0) {
+        return null;
+    }
+
+    return (
+        <div
+            style={{
+                alignSelf: 'flex-start',
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: '8px',
+                maxWidth: '100%'
+            }}
+        >
+            {actions.map((action, index) => (
+                <button
+                    key={`${action.type}-${index}`}
+                    onClick={() => onAction(action)}
+                    disabled={disabled}
+                    style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        padding: '6px 14px',
+                        backgroundColor: theme.surfaceColor,
+                        color: theme.primaryColor,
+                        border: `1px solid ${theme.primaryColor}`,
+                        borderRadius: '16px',
+                        cursor: disabled ? 'not-allowed' : 'pointer',
+                        opacity: disabled ? 0.6 : 1,
+                        fontSize: '13px',
+                        fontWeight: '500'
+                    }}
+                    title={action.type === 'openUrl' && typeof action.value === 'string' ? action.value : getActionTitle(action)}
+                >
+                    {action.image && (
+                        <img
+                            src={action.image}
+                            alt=""
+                            style={{ width: '16px', height: '16px', borderRadius: '50%' }}
+                        />
+                    )}
+                    {getActionTitle(action)}
+                    {action.type === 'openUrl' && ' ↗'}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default SuggestedActions;
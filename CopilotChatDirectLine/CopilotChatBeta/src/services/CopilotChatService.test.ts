@@ -0,0 +1,443 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Activity, CopilotChatService, OutboxEvent } from './CopilotChatService';
+import { AuthError, DirectLineError, NotFoundError } from './errors';
+
+const ENDPOINT = 'https://directline.example.test/v3/directline';
+
+/**
+ * WebSocket stand-in the tests drive by hand
+ */
+class FakeSocket {
+    static instances: FakeSocket[] = [];
+
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+    onerror: ((event: unknown) => void) | null = null;
+    onclose: (() => void) | null = null;
+    isClosed = false;
+
+    constructor(public url: string) {
+        FakeSocket.instances.push(this);
+    }
+
+    close(): void {
+        this.isClosed = true;
+        this.onclose?.();
+    }
+
+    open(): void {
+        this.onopen?.();
+    }
+
+    receive(data: unknown): void {
+        this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+    }
+
+    // The server or network ends the stream
+    drop(): void {
+        this.onclose?.();
+    }
+}
+
+const latestSocket = (): FakeSocket => FakeSocket.instances[FakeSocket.instances.length - 1];
+
+const respond = (body: unknown, status = 200): Response =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const botMessage = (id: string, text = id): Activity => ({ id, type: 'message', from: { id: 'bot' }, text });
+
+const fetchMock = vi.fn<typeof fetch>();
+let polledActivities: Activity[] = [];
+let streamUrls: Array<string | undefined> = [];
+let postedActivities: Activity[] = [];
+const network = { onLine: true };
+
+const activityFetches = (): number =>
+    fetchMock.mock.calls.filter(([url, init]) => (url as string).includes('/activities') && init?.method !== 'POST').length;
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    FakeSocket.instances = [];
+    polledActivities = [];
+    streamUrls = [];
+    postedActivities = [];
+    network.onLine = true;
+    // The service only ever passes string URLs
+    fetchMock.mockImplementation((input, init) => {
+        const url = input as string;
+        if (url.endsWith('/conversations')) {
+            return Promise.resolve(respond({ conversationId: 'c1', streamUrl: 'wss://stream.test/1' }, 201));
+        }
+        if (url.endsWith('/tokens/refresh')) {
+            return Promise.resolve(respond({ token: 'refreshed', expires_in: 1800 }));
+        }
+        if (url.includes('/activities') && init?.method === 'POST') {
+            postedActivities.push(JSON.parse(init.body as string) as Activity);
+            return Promise.resolve(respond({ id: `c1|${postedActivities.length}` }));
+        }
+        if (url.includes('/activities')) {
+            const activities = polledActivities;
+            polledActivities = [];
+            return Promise.resolve(respond({ activities, watermark: activities.length > 0 ? String(activities.length) : undefined }));
+        }
+        return Promise.resolve(respond({ conversationId: 'c1', streamUrl: streamUrls.shift() }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('WebSocket', FakeSocket);
+    vi.stubGlobal('window', new EventTarget());
+    vi.stubGlobal('navigator', network);
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => undefined, removeItem: () => undefined });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    fetchMock.mockReset();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+const startService = async (): Promise<CopilotChatService> => {
+    const service = new CopilotChatService({ token: 't', expiresIn: 1800 }, ENDPOINT);
+    await service.startConversation();
+    return service;
+};
+
+describe('CopilotChatService activity stream', () => {
+    it('delivers bot activities from the WebSocket stream', async () => {
+        const service = await startService();
+        const listener = vi.fn();
+
+        service.subscribe(listener);
+        const socket = latestSocket();
+        socket.open();
+        socket.receive('');     // Keep-alive
+        socket.receive({
+            activities: [{ id: 'u1', type: 'message', from: { id: 'user' }, text: 'hi' }, botMessage('b1')],
+            watermark: '2'
+        });
+
+        expect(socket.url).toBe('wss://stream.test/1');
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith([botMessage('b1')]);
+        expect(activityFetches()).toBe(0);
+        service.disconnect();
+        expect(socket.isClosed).toBe(true);
+    });
+
+    it('falls back to polling when the stream drops and returns to the socket later', async () => {
+        const service = await startService();
+        const listener = vi.fn();
+        service.subscribe(listener);
+        latestSocket().open();
+
+        latestSocket().drop();
+        polledActivities = [botMessage('b1')];
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect(activityFetches()).toBe(1);
+        expect(listener).toHaveBeenCalledWith([botMessage('b1')]);
+
+        streamUrls = ['wss://stream.test/2'];
+        await vi.advanceTimersByTimeAsync(27000);
+        const socket = latestSocket();
+        expect(socket.url).toBe('wss://stream.test/2');
+        expect(fetchMock).toHaveBeenCalledWith(`${ENDPOINT}/conversations/c1?watermark=1`, expect.anything());
+
+        socket.open();
+        const polls = activityFetches();
+        await vi.advanceTimersByTimeAsync(9000);
+        expect(activityFetches()).toBe(polls);
+        service.disconnect();
+    });
+
+    it('keeps polling when no stream is available', async () => {
+        const service = new CopilotChatService({ token: 't', expiresIn: 1800 }, ENDPOINT);
+        fetchMock.mockResolvedValueOnce(respond({ conversationId: 'c1' }, 201));
+        await service.startConversation();
+
+        service.subscribe(vi.fn());
+        await vi.advanceTimersByTimeAsync(0);
+        expect(FakeSocket.instances).toHaveLength(0);
+
+        await vi.advanceTimersByTimeAsync(6000);
+        expect(activityFetches()).toBe(2);
+
+        // The retry still finds no stream, so polling carries on
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(FakeSocket.instances).toHaveLength(0);
+        expect(activityFetches()).toBe(12);
+        service.disconnect();
+    });
+
+    it('holds activities that arrive while nobody is subscribed', async () => {
+        const service = await startService();
+        const unsubscribe = service.subscribe(vi.fn());
+        const socket = latestSocket();
+        socket.open();
+
+        unsubscribe();
+        socket.receive({ activities: [botMessage('b1')], watermark: '1' });
+        socket.receive({ activities: [botMessage('b2')], watermark: '2' });
+
+        const listener = vi.fn();
+        service.subscribe(listener);
+        expect(listener).toHaveBeenCalledWith([botMessage('b1'), botMessage('b2')]);
+
+        socket.receive({ activities: [botMessage('b3')], watermark: '3' });
+        expect(listener).toHaveBeenLastCalledWith([botMessage('b3')]);
+        expect(FakeSocket.instances).toHaveLength(1);
+        service.disconnect();
+    });
+});
+
+describe('CopilotChatService token refresh', () => {
+    it('refreshes the token five minutes before it expires and reports it for persistence', async () => {
+        const service = await startService();
+        const onStateChange = vi.fn();
+        service.setStateChangeCallback(onStateChange);
+
+        await vi.advanceTimersByTimeAsync(25 * 60 * 1000 - 1);
+        expect(fetchMock).not.toHaveBeenCalledWith(`${ENDPOINT}/tokens/refresh`, expect.anything());
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchMock).toHaveBeenCalledWith(`${ENDPOINT}/tokens/refresh`, expect.objectContaining({
+            headers: { 'Authorization': 'Bearer t' }
+        }));
+        expect(onStateChange).toHaveBeenCalledWith('c1', null, 'refreshed', Date.now() + 1800 * 1000);
+        expect(service.getSessionStatus()).toBe('active');
+        service.disconnect();
+    });
+
+    it('marks the session expired and stops streaming when the token is rejected', async () => {
+        const service = await startService();
+        const onSessionStatus = vi.fn();
+        service.setSessionStatusCallback(onSessionStatus);
+        service.subscribe(vi.fn());
+        const socket = latestSocket();
+        socket.open();
+
+        fetchMock.mockResolvedValueOnce(respond({}, 401));
+        await vi.advanceTimersByTimeAsync(25 * 60 * 1000);
+
+        expect(service.getSessionStatus()).toBe('expired');
+        expect(onSessionStatus).toHaveBeenCalledWith('expired');
+        expect(socket.isClosed).toBe(true);
+
+        // No further refreshes or polling once expired
+        const calls = fetchMock.mock.calls.length;
+        await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+        expect(fetchMock).toHaveBeenCalledTimes(calls);
+    });
+
+    it('marks the session expired when a request is unauthorized', async () => {
+        const service = await startService();
+        const onSessionStatus = vi.fn();
+        service.setSessionStatusCallback(onSessionStatus);
+
+        fetchMock.mockResolvedValueOnce(respond({}, 403));
+        await expect(service.sendMessage('hello')).rejects.toThrow(AuthError);
+
+        expect(onSessionStatus).toHaveBeenCalledWith('expired');
+    });
+});
+
+describe('CopilotChatService message delivery', () => {
+    it('returns the Direct Line id of a sent message', async () => {
+        const service = await startService();
+
+        await expect(service.sendMessage('hello')).resolves.toBe('c1|1');
+        await expect(service.sendMessageWithAttachments('photo', [
+            { contentType: 'image/png', contentUrl: 'data:image/png;base64,AAAA', name: 'photo.png' }
+        ])).resolves.toBe('c1|2');
+        expect(postedActivities.map(activity => activity.text)).toEqual(['hello', 'photo']);
+        service.disconnect();
+    });
+
+    it('fails a send with a typed error and does not post it twice', async () => {
+        const service = await startService();
+        const calls = fetchMock.mock.calls.length;
+
+        fetchMock.mockResolvedValueOnce(respond({}, 404));
+        await expect(service.sendMessage('hello')).rejects.toThrow(NotFoundError);
+
+        fetchMock.mockResolvedValueOnce(respond({}, 500));
+        await expect(service.sendMessage('hello')).rejects.toThrow(DirectLineError);
+        expect(fetchMock).toHaveBeenCalledTimes(calls + 2);
+        service.disconnect();
+    });
+});
+
+describe('CopilotChatService outbox', () => {
+    const goOnline = async (): Promise<void> => {
+        network.onLine = true;
+        window.dispatchEvent(new Event('online'));
+        await vi.advanceTimersByTimeAsync(0);
+    };
+
+    it('holds messages while offline and sends them in order when back online', async () => {
+        const service = await startService();
+        const onOutbox = vi.fn();
+        service.setOutboxCallback(onOutbox);
+
+        network.onLine = false;
+        service.queueMessage('m1', { text: 'one' });
+        service.queueMessage('m2', { text: 'two', value: { choice: 2 } });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(postedActivities).toEqual([]);
+        expect(service.getOutboxIds()).toEqual(['m1', 'm2']);
+
+        await goOnline();
+
+        expect(postedActivities.map(activity => activity.text)).toEqual(['one', 'two']);
+        expect(postedActivities[1].value).toEqual({ choice: 2 });
+        expect(onOutbox).toHaveBeenCalledWith({ type: 'sent', id: 'm1', activityId: 'c1|1', pending: 1 });
+        expect(onOutbox).toHaveBeenLastCalledWith({ type: 'sent', id: 'm2', activityId: 'c1|2', pending: 0 });
+        expect(service.getOutboxIds()).toEqual([]);
+        service.disconnect();
+    });
+
+    it('stops at a network error and keeps the queue in order', async () => {
+        const service = await startService();
+
+        fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+        service.queueMessage('m1', { text: 'one' });
+        service.queueMessage('m2', { text: 'two' });
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(postedActivities).toEqual([]);
+        expect(service.getOutboxIds()).toEqual(['m1', 'm2']);
+
+        await goOnline();
+        expect(postedActivities.map(activity => activity.text)).toEqual(['one', 'two']);
+        service.disconnect();
+    });
+
+    it('drops a message Direct Line rejects and carries on with the rest', async () => {
+        const service = await startService();
+        const onOutbox = vi.fn();
+        service.setOutboxCallback(onOutbox);
+
+        network.onLine = false;
+        service.queueMessage('m1', { text: 'one' });
+        service.queueMessage('m2', { text: 'two' });
+        fetchMock.mockResolvedValueOnce(respond({}, 400));
+        await goOnline();
+
+        const failed = onOutbox.mock.calls.map(([event]) => event as OutboxEvent).find(event => event.type === 'failed');
+        expect(failed?.id).toBe('m1');
+        expect(failed?.error).toBeInstanceOf(DirectLineError);
+        expect(postedActivities.map(activity => activity.text)).toEqual(['two']);
+        expect(service.getOutboxIds()).toEqual([]);
+        service.disconnect();
+    });
+
+    it('reports queued messages that would not survive a reload', async () => {
+        const service = await startService();
+        network.onLine = false;
+
+        service.queueMessage('m1', { text: 'one' });
+        service.queueMessage('m2', {
+            text: 'photo',
+            attachments: [{ contentType: 'image/png', contentUrl: 'data:image/png;base64,AAAA', name: 'photo.png' }]
+        });
+        expect(service.getUnsavedOutboxIds()).toEqual(['m2']);
+
+        // Storage is full, so nothing queued from here on is kept
+        vi.stubGlobal('localStorage', {
+            getItem: () => null,
+            setItem: () => { throw new DOMException('The quota has been exceeded.', 'QuotaExceededError'); },
+            removeItem: () => undefined
+        });
+        service.queueMessage('m3', { text: 'three' });
+        expect(service.getUnsavedOutboxIds()).toEqual(['m1', 'm2', 'm3']);
+        service.disconnect();
+    });
+});
+
+describe('CopilotChatService card submits', () => {
+    it('sends submit data as the activity value without empty text', async () => {
+        const service = await startService();
+
+        await service.sendActivity({ text: '', value: { rating: 5, comment: 'great' } });
+
+        expect(postedActivities[0]).toMatchObject({ type: 'message', from: { id: 'user' }, value: { rating: 5, comment: 'great' } });
+        expect(postedActivities[0]).not.toHaveProperty('text');
+        service.disconnect();
+    });
+});
+
+describe('CopilotChatService invokes', () => {
+    const invokeResponse = (replyToId: string, value: unknown): Activity =>
+        ({ type: 'invokeResponse', from: { id: 'bot' }, replyToId, value });
+
+    it('returns a response Direct Line includes in the POST reply', async () => {
+        const service = await startService();
+        fetchMock.mockResolvedValueOnce(respond({ status: 200, body: { statusCode: 200 } }));
+
+        await expect(service.sendInvoke('adaptiveCard/action', { action: { verb: 'approve' } }))
+            .resolves.toEqual({ status: 200, body: { statusCode: 200 } });
+        service.disconnect();
+    });
+
+    it('matches a streamed invokeResponse to its invoke and keeps it from listeners', async () => {
+        const service = await startService();
+        const listener = vi.fn();
+        service.subscribe(listener);
+        const socket = latestSocket();
+        socket.open();
+
+        const pending = service.sendInvoke('adaptiveCard/action', { action: { verb: 'approve' } });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(postedActivities[0]).toMatchObject({ type: 'invoke', name: 'adaptiveCard/action' });
+
+        socket.receive({ activities: [invokeResponse('c1|1', { status: 200, body: { type: 'card' } })], watermark: '1' });
+
+        await expect(pending).resolves.toEqual({ status: 200, body: { type: 'card' } });
+        expect(listener).not.toHaveBeenCalled();
+        service.disconnect();
+    });
+
+    it('uses a response that arrives before the POST completes', async () => {
+        const service = await startService();
+        service.subscribe(vi.fn());
+        const socket = latestSocket();
+        socket.open();
+
+        let completePost: (response: Response) => void = () => undefined;
+        fetchMock.mockReturnValueOnce(new Promise(resolve => {
+            completePost = resolve;
+        }));
+        const pending = service.sendInvoke('adaptiveCard/action', {});
+        socket.receive({ activities: [invokeResponse('c1|7', { status: 200 })], watermark: '1' });
+        completePost(respond({ id: 'c1|7' }));
+
+        await expect(pending).resolves.toEqual({ status: 200 });
+        service.disconnect();
+    });
+
+    it('ignores an invokeResponse without a replyToId', async () => {
+        const service = await startService();
+        service.subscribe(vi.fn());
+        const socket = latestSocket();
+        socket.open();
+
+        socket.receive({ activities: [{ type: 'invokeResponse', from: { id: 'bot' }, value: { status: 200 } }], watermark: '1' });
+
+        expect(console.warn).toHaveBeenCalledWith('⚠️ Ignoring invokeResponse without replyToId');
+        service.disconnect();
+    });
+
+    it('times out when no response arrives', async () => {
+        const service = await startService();
+
+        const pending = service.sendInvoke('adaptiveCard/action', {});
+        const outcome = expect(pending).rejects.toThrow('Timed out waiting for adaptiveCard/action response');
+        await vi.advanceTimersByTimeAsync(15000);
+
+        await outcome;
+        service.disconnect();
+    });
+});
@@ -1,3 +1,8 @@
+import { DirectLineToken, refreshDirectLineToken } from '../utils/auth';
+import { AuthError, DirectLineError, NetworkError, NotFoundError, ThrottledError } from './errors';
+import { OutboxItem, loadOutbox, saveOutbox, clearOutbox } from '../utils/storage';
+import { requestWithRetry, RetryOptions } from './request';
+
 /**
  * Direct Line attachment interface
  */
@@ -7,47 +12,179 @@ export interface DirectLineAttachment {
     name: string;
 }
 
+/**
+ * Activity attachment - a card (content) or a file/media reference (contentUrl)
+ */
+export interface ActivityAttachment {
+    contentType: string;
+    contentUrl?: string;
+    name?: string;
+    content?: unknown;
+}
+
+/**
+ * Bot Framework card action - used by suggested actions and card buttons.
+ * type is imBack, postBack, messageBack, openUrl, etc.
+ */
+export interface DirectLineCardAction {
+    type: string;
+    title?: string;
+    value?: unknown;
+    text?: string;          // messageBack: text sent to the bot
+    displayText?: string;   // messageBack: text shown in the transcript
+    image?: string;
+}
+
+/**
+ * Fields of a user message activity; everything else is filled in by the service
+ */
+export interface OutgoingMessage {
+    text?: string;
+    value?: unknown;
+    attachments?: DirectLineAttachment[];
+}
+
 /**
  * Direct Line activity interface
  */
 export interface Activity {
     id?: string;
     type: string;
+    name?: string;          // Invoke name, e.g. adaptiveCard/action
     from: { id: string };
+    replyToId?: string;
     text?: string;
+    value?: unknown;
     timestamp?: string;
-    attachments?: Array<{
-        contentType: string;
-        content?: {
-            buttons?: Array<{ value: string }>;
-            body?: Array<{ text?: string }>;
-            speak?: string;
-        };
-    }>;
+    locale?: string;        // BCP 47 language of the sender, e.g. es-ES
+    attachments?: ActivityAttachment[];
+    attachmentLayout?: 'list' | 'carousel';
+    suggestedActions?: {
+        actions: DirectLineCardAction[];
+        to?: string[];
+    };
     membersAdded?: Array<{ id: string }>;
     channelData?: {
         silentGreeting?: boolean;
     };
 }
 
+/**
+ * Response to an invoke activity - HTTP-style status plus a body defined by the invoke
+ */
+export interface InvokeResponse {
+    status: number;
+    body?: unknown;
+}
+
 /**
  * State change callback type
  */
-type StateChangeCallback = (conversationId: string, watermark: string | null) => void;
+type StateChangeCallback = (
+    conversationId: string,
+    watermark: string | null,
+    token: string,
+    tokenExpiresAt: number
+) => void;
+
+/**
+ * Token saved with a conversation, used to get back into it after a reload
+ */
+export interface ConversationToken {
+    token: string;
+    expiresAt: number;      // Epoch milliseconds
+}
+
+/**
+ * Session status - 'expired' once the token can no longer be used and a reconnect is required
+ */
+export type SessionStatus = 'active' | 'expired';
+
+/**
+ * Session status callback type
+ */
+type SessionStatusCallback = (status: SessionStatus) => void;
+
+/**
+ * Outbox change - a message was queued, delivered or permanently failed
+ */
+export interface OutboxEvent {
+    type: 'queued' | 'sent' | 'failed';
+    id: string;             // Local message id
+    activityId?: string;    // Set when type is 'sent'
+    error?: unknown;        // Set when type is 'failed'
+    pending: number;        // Messages still waiting to send
+}
+
+/**
+ * Outbox callback type
+ */
+type OutboxCallback = (event: OutboxEvent) => void;
+
+/**
+ * Activity stream listener type - receives filtered bot activities as they arrive
+ */
+export type ActivityListener = (activities: Activity[]) => void;
+
+/**
+ * Direct Line activity set, as returned by GET /activities and pushed over the stream socket
+ */
+interface ActivitySet {
+    activities?: Activity[];
+    watermark?: string;
+}
+
+// Watermark polling interval used when the WebSocket stream is unavailable
+const POLL_INTERVAL_MS = 3000;
+
+// How long to wait before trying to re-open the stream after it drops
+const STREAM_RETRY_MS = 30000;
+
+// Refresh the token this long before it expires
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Never schedule refreshes closer together than this
+const MIN_TOKEN_REFRESH_DELAY_MS = 30 * 1000;
+
+// How long to wait for an invokeResponse activity
+const INVOKE_TIMEOUT_MS = 15000;
 
 /**
  * Service for communicating with Copilot via Direct Line
  */
 export class CopilotChatService {
-    private secret: string;
+    private token: string;
+    private tokenExpiresAt: number;
+    private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private sessionStatus: SessionStatus = 'active';
+    private onSessionStatusChange: SessionStatusCallback | null = null;
     private baseUrl: string;
     private conversationId: string | null = null;
     private watermark: string | null = null;
     private onStateChange: StateChangeCallback | null = null;
+    private streamUrl: string | null = null;
+    private socket: WebSocket | null = null;
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private isPollInFlight = false;
+    private streamRetryTimer: ReturnType<typeof setTimeout> | null = null;
+    private isStreaming = false;
+    private listeners = new Set<ActivityListener>();
+    private undelivered: Activity[] = [];   // Arrived while nobody was subscribed
+    private outbox: OutboxItem[] = loadOutbox();
+    private isOutboxSaved = true;
+    private isDrainingOutbox = false;
+    private onOutboxChange: OutboxCallback | null = null;
+    private pendingInvokes = new Map<string, (response: InvokeResponse) => void>();
+    private unclaimedInvokeResponses = new Map<string, InvokeResponse>();
+    private locale: string | null = null;
 
-    constructor(secret: string, endpoint?: string) {
-        this.secret = secret;
+    constructor(token: DirectLineToken, endpoint?: string) {
+        this.token = token.token;
+        this.tokenExpiresAt = Date.now() + token.expiresIn * 1000;
         this.baseUrl = endpoint || 'https://directline.botframework.com/v3/directline';
+        this.scheduleTokenRefresh();
+        window.addEventListener('online', this.handleOnline);
+        window.addEventListener('offline', this.handleOffline);
     }
 
     /**
@@ -57,6 +194,51 @@ export class CopilotChatService {
         this.onStateChange = callback;
     }
 
+    /**
+     * Set callback for session status changes (e.g. token expiry)
+     */
+    setSessionStatusCallback(callback: SessionStatusCallback): void {
+        this.onSessionStatusChange = callback;
+    }
+
+    /**
+     * Get current session status
+     */
+    getSessionStatus(): SessionStatus {
+        return this.sessionStatus;
+    }
+
+    /**
+     * Set callback for outbox changes (queued, delivered, failed)
+     */
+    setOutboxCallback(callback: OutboxCallback): void {
+        this.onOutboxChange = callback;
+    }
+
+    /**
+     * Get the local message ids still waiting in the outbox, in send order
+     */
+    getOutboxIds(): string[] {
+        return this.outbox.map(item => item.id);
+    }
+
+    /**
+     * Get the queued message ids that would be lost on a reload - messages with
+     * files are never saved, and nothing is saved while storage is full
+     */
+    getUnsavedOutboxIds(): string[] {
+        return this.outbox
+            .filter(item => !this.isOutboxSaved || (item.attachments !== undefined && item.attachments.length > 0))
+            .map(item => item.id);
+    }
+
+    /**
+     * Set the user's locale, sent on every outgoing activity so the bot can reply in that language
+     */
+    setLocale(locale: string): void {
+        this.locale = locale;
+    }
+
     /**
      * Get current conversation ID
      */
@@ -72,107 +254,277 @@ export class CopilotChatService {
     }
 
     /**
-     * Try to reconnect to an existing conversation
+     * Schedule the next token refresh ahead of expiry
+     */
+    private scheduleTokenRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        const delay = Math.max(
+            this.tokenExpiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS,
+            MIN_TOKEN_REFRESH_DELAY_MS
+        );
+        console.log(`🔑 Token refresh scheduled in ${Math.round(delay / 1000)}s`);
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            void this.refreshToken();
+        }, delay);
+    }
+
+    /**
+     * Refresh the token; retries until expiry, then marks the session expired
+     */
+    private async refreshToken(): Promise<void> {
+        if (this.sessionStatus === 'expired') {
+            return;
+        }
+        try {
+            const refreshed = await refreshDirectLineToken(this.token, this.baseUrl);
+            this.token = refreshed.token;
+            this.tokenExpiresAt = Date.now() + refreshed.expiresIn * 1000;
+            console.log('✅ Direct Line token refreshed');
+            this.scheduleTokenRefresh();
+            this.notifyStateChange();
+        } catch (error) {
+            console.error('❌ Token refresh failed:', error);
+            if (error instanceof AuthError || Date.now() + MIN_TOKEN_REFRESH_DELAY_MS >= this.tokenExpiresAt) {
+                this.markSessionExpired();
+            } else {
+                this.scheduleTokenRefresh();
+            }
+        }
+    }
+
+    /**
+     * Stop all traffic and notify that a reconnect is required
+     */
+    private markSessionExpired(): void {
+        if (this.sessionStatus === 'expired') {
+            return;
+        }
+        console.log('⏰ Direct Line session expired');
+        this.sessionStatus = 'expired';
+        this.disconnect();
+        if (this.onSessionStatusChange) {
+            this.onSessionStatusChange(this.sessionStatus);
+        }
+    }
+
+    /**
+     * Make an authenticated Direct Line request through the shared retry layer.
+     * An AuthError marks the session expired before it is rethrown.
+     */
+    private async request(
+        path: string,
+        init: RequestInit,
+        description: string,
+        retryOptions?: RetryOptions
+    ): Promise<Response> {
+        try {
+            return await requestWithRetry(
+                `${this.baseUrl}${path}`,
+                {
+                    ...init,
+                    headers: {
+                        'Authorization': `Bearer ${this.token}`,
+                        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+                        ...init.headers
+                    }
+                },
+                description,
+                retryOptions
+            );
+        } catch (error) {
+            if (error instanceof AuthError) {
+                this.markSessionExpired();
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * POST an activity to the current conversation
+     */
+    private async postActivity(activity: Activity, description: string): Promise<Response> {
+        return this.request(
+            `/conversations/${this.conversationId}/activities`,
+            { method: 'POST', body: JSON.stringify(this.locale ? { ...activity, locale: this.locale } : activity) },
+            description
+        );
+    }
+
+    private activitiesPath(conversationId: string, watermark: string | null): string {
+        return watermark
+            ? `/conversations/${conversationId}/activities?watermark=${watermark}`
+            : `/conversations/${conversationId}/activities`;
+    }
+
+    /**
+     * Try to reconnect to an existing conversation, using the token saved with it
      * Returns true if reconnection successful, false if we need to start fresh
      */
-    async reconnectConversation(conversationId: string, watermark: string | null): Promise<boolean> {
+    async reconnectConversation(
+        conversationId: string,
+        watermark: string | null,
+        savedToken?: ConversationToken
+    ): Promise<boolean> {
         console.log('🔄 Attempting to reconnect to conversation:', conversationId);
+        // Kept for a new conversation if the saved one can't be resumed
+        const freshToken: ConversationToken = { token: this.token, expiresAt: this.tokenExpiresAt };
+        if (savedToken && !(await this.resumeToken(savedToken))) {
+            return false;
+        }
         try {
-            // Try to get messages from the existing conversation
-            const url = watermark
-                ? `${this.baseUrl}/conversations/${conversationId}/activities?watermark=${watermark}`
-                : `${this.baseUrl}/conversations/${conversationId}/activities`;
-
-            const response = await fetch(url, {
-                headers: {
-                    'Authorization': `Bearer ${this.secret}`
-                }
-            });
+            // Reconnecting returns a fresh streamUrl for the existing conversation
+            const streamUrl = await this.fetchStreamUrl(conversationId, watermark);
 
-            if (response.ok) {
-                // Conversation is still valid
-                this.conversationId = conversationId;
-                this.watermark = watermark;
-                console.log('✅ Reconnected to existing conversation successfully');
-                return true;
-            } else if (response.status === 403 || response.status === 404) {
-                // Conversation expired or not found
+            // Conversation is still valid
+            this.conversationId = conversationId;
+            this.watermark = watermark;
+            this.streamUrl = streamUrl;
+            console.log('✅ Reconnected to existing conversation successfully');
+            this.notifyStateChange();
+            return true;
+        } catch (error) {
+            if (error instanceof AuthError || error instanceof NotFoundError) {
+                // Conversation expired, not found, or not accessible with this token
                 console.log('⚠️ Conversation expired or not found, will start new');
-                return false;
             } else {
-                console.error('❌ Reconnection failed:', response.status, response.statusText);
-                return false;
+                console.error('❌ Reconnection error:', error);
+            }
+            if (savedToken) {
+                this.token = freshToken.token;
+                this.tokenExpiresAt = freshToken.expiresAt;
+                this.scheduleTokenRefresh();
             }
-        } catch (error) {
-            console.error('❌ Reconnection error:', error);
             return false;
         }
     }
 
     /**
-     * Start a new conversation
+     * Switch to the token a saved conversation was bound to, refreshing it first.
+     * Returns false only when the token is expired or rejected.
      */
-    async startConversation(): Promise<string> {
-        const response = await fetch(`${this.baseUrl}/conversations`, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.secret}`,
-                'Content-Type': 'application/json'
+    private async resumeToken(savedToken: ConversationToken): Promise<boolean> {
+        if (savedToken.expiresAt <= Date.now()) {
+            console.log('⏰ Saved conversation token has expired');
+            return false;
+        }
+        try {
+            const refreshed = await refreshDirectLineToken(savedToken.token, this.baseUrl);
+            this.token = refreshed.token;
+            this.tokenExpiresAt = Date.now() + refreshed.expiresIn * 1000;
+            console.log('✅ Saved conversation token refreshed');
+        } catch (error) {
+            if (error instanceof AuthError) {
+                console.log('⚠️ Saved conversation token was rejected');
+                return false;
             }
-        });
+            // Still valid for now; the scheduled refresh will try again
+            console.error('❌ Could not refresh saved conversation token:', error);
+            this.token = savedToken.token;
+            this.tokenExpiresAt = savedToken.expiresAt;
+        }
+        this.scheduleTokenRefresh();
+        return true;
+    }
 
-        if (!response.ok) {
-            throw new Error(`Failed to start conversation: ${response.statusText}`);
+    /**
+     * Report the conversation, watermark and current token for persistence
+     */
+    private notifyStateChange(): void {
+        if (this.onStateChange && this.conversationId) {
+            this.onStateChange(this.conversationId, this.watermark, this.token, this.tokenExpiresAt);
         }
+    }
+
+    /**
+     * Request a fresh streamUrl for a conversation (null if no stream is available).
+     * Uses the retry layer directly: a 403 here means the saved conversation is not
+     * accessible with this token, not that the session has expired.
+     */
+    private async fetchStreamUrl(conversationId: string, watermark: string | null): Promise<string | null> {
+        const path = watermark
+            ? `/conversations/${conversationId}?watermark=${watermark}`
+            : `/conversations/${conversationId}`;
+
+        const response = await requestWithRetry(
+            `${this.baseUrl}${path}`,
+            { headers: { 'Authorization': `Bearer ${this.token}` } },
+            'Failed to reconnect'
+        );
+
+        const data = await response.json() as { streamUrl?: string };
+        return data.streamUrl || null;
+    }
+
+    /**
+     * Start a new conversation
+     */
+    async startConversation(): Promise<string> {
+        const response = await this.request(
+            '/conversations',
+            { method: 'POST', headers: { 'Content-Type': 'application/json' } },
+            'Failed to start conversation',
+            // A second attempt at most leaves an unused conversation behind
+            { idempotent: true }
+        );
 
-        const data = await response.json() as { conversationId: string };
+        const data = await response.json() as { conversationId: string; streamUrl?: string };
         this.conversationId = data.conversationId;
+        this.streamUrl = data.streamUrl || null;
 
         // Notify about new conversation state
-        if (this.onStateChange) {
-            this.onStateChange(this.conversationId, this.watermark);
-        }
+        this.notifyStateChange();
 
         return this.conversationId;
     }
 
     /**
-     * Send a text message
+     * POST an activity and return the id Direct Line assigned to it
+     */
+    private async postActivityForId(activity: Activity, description: string): Promise<string> {
+        const response = await this.postActivity(activity, description);
+        const data = await response.json() as { id?: string };
+        return data.id || '';
+    }
+
+    /**
+     * Send a user message activity with any combination of text, value and attachments
+     * Returns the Direct Line activity id of the sent message
      */
-    async sendMessage(text: string): Promise<void> {
+    async sendActivity(message: OutgoingMessage): Promise<string> {
         if (!this.conversationId) {
-            throw new Error('Conversation not started');
+            throw new DirectLineError('Conversation not started');
         }
 
         const activity: Activity = {
             type: 'message',
             from: { id: 'user' },
-            text: text
+            // Card submits carry only a value; omit the empty text
+            text: message.text || undefined,
+            value: message.value,
+            attachments: message.attachments
         };
 
-        const response = await fetch(
-            `${this.baseUrl}/conversations/${this.conversationId}/activities`,
-            {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.secret}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(activity)
-            }
-        );
+        return this.postActivityForId(activity, 'Failed to send message');
+    }
 
-        if (!response.ok) {
-            throw new Error(`Failed to send message: ${response.statusText}`);
-        }
+    /**
+     * Send a text message
+     * Returns the Direct Line activity id of the sent message
+     */
+    async sendMessage(text: string): Promise<string> {
+        return this.sendActivity({ text });
     }
 
     /**
      * Send a message with attachments (images, documents)
+     * Returns the Direct Line activity id of the sent message
      */
-    async sendMessageWithAttachments(text: string, attachments: DirectLineAttachment[]): Promise<void> {
+    async sendMessageWithAttachments(text: string, attachments: DirectLineAttachment[]): Promise<string> {
         if (!this.conversationId) {
-            throw new Error('Conversation not started');
+            throw new DirectLineError('Conversation not started');
         }
 
         console.log(`📎 Sending message with ${attachments.length} attachment(s)`);
@@ -195,25 +547,16 @@ export class CopilotChatService {
             attachmentNames: activity.attachments?.map(a => a.name)
         });
 
-        const response = await fetch(
-            `${this.baseUrl}/conversations/${this.conversationId}/activities`,
-            {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.secret}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(activity)
-            }
-        );
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('❌ Failed to send message with attachments:', response.status, errorText);
-            throw new Error(`Failed to send message with attachments: ${response.statusText}`);
+        let activityId: string;
+        try {
+            activityId = await this.postActivityForId(activity, 'Failed to send message with attachments');
+        } catch (error) {
+            console.error('❌ Failed to send message with attachments:', error);
+            throw error;
         }
 
         console.log('✅ Message with attachments sent successfully');
+        return activityId;
     }
 
     /**
@@ -221,7 +564,7 @@ export class CopilotChatService {
      */
     async triggerConversationStart(): Promise<void> {
         if (!this.conversationId) {
-            throw new Error('Conversation not started');
+            throw new DirectLineError('Conversation not started');
         }
 
         // Try conversationUpdate first (standard pattern)
@@ -233,45 +576,31 @@ export class CopilotChatService {
         };
 
         try {
-            const response = await fetch(
-                `${this.baseUrl}/conversations/${this.conversationId}/activities`,
-                {
-                    method: 'POST',
-                    headers: {
-                        'Authorization': `Bearer ${this.secret}`,
-                        'Content-Type': 'application/json'
-                    },
-                    body: JSON.stringify(conversationUpdateActivity)
-                }
+            await this.postActivity(conversationUpdateActivity, 'Failed to send conversationUpdate');
+
+            console.log('✅ ConversationUpdate sent - waiting 2 seconds for bot response...');
+            // Wait 2 seconds to see if bot responds
+            await new Promise(resolve => setTimeout(resolve, 2000));
+
+            // Check if we got any messages
+            const checkResponse = await this.request(
+                this.activitiesPath(this.conversationId, null),
+                {},
+                'Failed to check for bot response'
             );
 
-            if (response.ok) {
-                console.log('✅ ConversationUpdate sent - waiting 2 seconds for bot response...');
-                // Wait 2 seconds to see if bot responds
-                await new Promise(resolve => setTimeout(resolve, 2000));
-
-                // Check if we got any messages
-                const checkResponse = await fetch(
-                    `${this.baseUrl}/conversations/${this.conversationId}/activities`,
-                    {
-                        headers: {
-                            'Authorization': `Bearer ${this.secret}`
-                        }
-                    }
-                );
-
-                if (checkResponse.ok) {
-                    const data = await checkResponse.json() as { activities?: Activity[] };
-                    const botMessages = data.activities?.filter(
-                        a => a.from.id !== 'user' && a.type === 'message'
-                    ) || [];
-                    if (botMessages.length > 0) {
-                        console.log('✅ Bot responded to conversationUpdate!');
-                        return;
-                    }
-                }
+            const data = await checkResponse.json() as { activities?: Activity[] };
+            const botMessages = data.activities?.filter(
+                a => a.from.id !== 'user' && a.type === 'message'
+            ) || [];
+            if (botMessages.length > 0) {
+                console.log('✅ Bot responded to conversationUpdate!');
+                return;
             }
         } catch (error) {
+            if (error instanceof AuthError) {
+                throw error;
+            }
             console.warn('⚠️ ConversationUpdate failed or no response:', error);
         }
 
@@ -284,67 +613,413 @@ export class CopilotChatService {
             channelData: { silentGreeting: true }
         };
 
-        const fallbackResponse = await fetch(
-            `${this.baseUrl}/conversations/${this.conversationId}/activities`,
-            {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.secret}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(hiddenMessageActivity)
-            }
-        );
-
-        if (!fallbackResponse.ok) {
-            const errorText = await fallbackResponse.text();
-            console.error('❌ Hidden greeting message failed:', fallbackResponse.status, errorText);
-            throw new Error(`Failed to send greeting: ${fallbackResponse.statusText}`);
+        try {
+            await this.postActivity(hiddenMessageActivity, 'Failed to send greeting');
+        } catch (error) {
+            console.error('❌ Hidden greeting message failed:', error);
+            throw error;
         }
 
         console.log('✅ Hidden greeting message sent - bot should respond shortly');
     }
 
+    /**
+     * Send an invoke activity and wait for the bot's response.
+     * The response comes back in the POST body when the channel supports it,
+     * otherwise as an invokeResponse activity replying to the invoke.
+     */
+    async sendInvoke(name: string, value: unknown): Promise<InvokeResponse> {
+        if (!this.conversationId) {
+            throw new DirectLineError('Conversation not started');
+        }
+
+        console.log('📨 Sending invoke:', name);
+        const activity: Activity = {
+            type: 'invoke',
+            name,
+            from: { id: 'user' },
+            value
+        };
+
+        const response = await this.postActivity(activity, `Failed to send ${name} invoke`);
+        const data = await response.json() as { id?: string; status?: number; body?: unknown };
+        if (typeof data.status === 'number') {
+            return { status: data.status, body: data.body };
+        }
+
+        const invokeId = data.id;
+        if (!invokeId) {
+            throw new DirectLineError(`No response to ${name} invoke`);
+        }
+
+        // The stream may already have delivered the response
+        const early = this.unclaimedInvokeResponses.get(invokeId);
+        if (early) {
+            this.unclaimedInvokeResponses.delete(invokeId);
+            return early;
+        }
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pendingInvokes.delete(invokeId);
+                reject(new DirectLineError(`Timed out waiting for ${name} response`));
+            }, INVOKE_TIMEOUT_MS);
+
+            this.pendingInvokes.set(invokeId, invokeResponse => {
+                clearTimeout(timer);
+                this.pendingInvokes.delete(invokeId);
+                resolve(invokeResponse);
+            });
+        });
+    }
+
     /**
      * Get messages from the conversation
      */
-    async getMessages(): Promise<Activity[]> {
+    async getMessages(retryOptions?: RetryOptions): Promise<Activity[]> {
         if (!this.conversationId) {
-            throw new Error('Conversation not started');
+            throw new DirectLineError('Conversation not started');
         }
 
-        const url = this.watermark
-            ? `${this.baseUrl}/conversations/${this.conversationId}/activities?watermark=${this.watermark}`
-            : `${this.baseUrl}/conversations/${this.conversationId}/activities`;
+        const response = await this.request(
+            this.activitiesPath(this.conversationId, this.watermark),
+            {},
+            'Failed to get messages',
+            retryOptions
+        );
 
-        const response = await fetch(url, {
-            headers: {
-                'Authorization': `Bearer ${this.secret}`
-            }
+        const data = await response.json() as ActivitySet;
+        return this.processActivitySet(data);
+    }
+
+    /**
+     * Queue a message for delivery. It is persisted locally and sent in order
+     * once the network is available.
+     */
+    queueMessage(id: string, message: OutgoingMessage): void {
+        console.log('📮 Queuing message for later delivery:', id);
+        this.outbox.push({
+            id,
+            text: message.text || '',
+            attachments: message.attachments,
+            value: message.value,
+            queuedAt: Date.now()
         });
+        this.isOutboxSaved = saveOutbox(this.outbox);
+        this.notifyOutbox({ type: 'queued', id });
+        void this.drainOutbox();
+    }
+
+    /**
+     * Drop all queued messages (e.g., when starting a new chat)
+     */
+    clearOutbox(): void {
+        this.outbox = [];
+        this.isOutboxSaved = true;
+        clearOutbox();
+    }
+
+    /**
+     * Send queued messages in order. Stops at the first network or throttling
+     * failure and tries again when connectivity returns.
+     */
+    async drainOutbox(): Promise<void> {
+        if (this.isDrainingOutbox || this.outbox.length === 0 || !this.conversationId || !navigator.onLine) {
+            return;
+        }
+        if (this.sessionStatus === 'expired') {
+            return;
+        }
+
+        this.isDrainingOutbox = true;
+        console.log('📮 Draining outbox:', this.outbox.length, 'pending');
+        try {
+            while (this.outbox.length > 0) {
+                const item = this.outbox[0];
+                try {
+                    const activityId = item.attachments && item.attachments.length > 0
+                        ? await this.sendMessageWithAttachments(item.text, item.attachments)
+                        : await this.sendActivity({ text: item.text, value: item.value });
+                    this.removeFromOutbox(item);
+                    this.notifyOutbox({ type: 'sent', id: item.id, activityId });
+                } catch (error) {
+                    if (error instanceof NetworkError || error instanceof ThrottledError) {
+                        console.log('📮 Outbox paused, will retry when back online:', error.message);
+                        return;
+                    }
+                    console.error('❌ Queued message could not be delivered:', error);
+                    this.removeFromOutbox(item);
+                    this.notifyOutbox({ type: 'failed', id: item.id, error });
+                    if (error instanceof AuthError) {
+                        return;
+                    }
+                }
+            }
+        } finally {
+            this.isDrainingOutbox = false;
+        }
+    }
+
+    private resolveInvoke(activity: Activity): void {
+        const replyToId = activity.replyToId;
+        if (!replyToId) {
+            console.warn('⚠️ Ignoring invokeResponse without replyToId');
+            return;
+        }
+        const response = (activity.value || { status: 200 }) as InvokeResponse;
+        const resolve = this.pendingInvokes.get(replyToId);
+        if (resolve) {
+            resolve(response);
+        } else {
+            this.unclaimedInvokeResponses.set(replyToId, response);
+        }
+    }
+
+    private removeFromOutbox(item: OutboxItem): void {
+        this.outbox = this.outbox.filter(i => i !== item);
+        this.isOutboxSaved = saveOutbox(this.outbox);
+    }
+
+    private notifyOutbox(event: Omit<OutboxEvent, 'pending'>): void {
+        if (this.onOutboxChange) {
+            this.onOutboxChange({ ...event, pending: this.outbox.length });
+        }
+    }
 
-        if (!response.ok) {
-            throw new Error(`Failed to get messages: ${response.statusText}`);
+    private handleOnline = (): void => {
+        console.log('🌐 Back online');
+        void this.drainOutbox();
+        if (this.isStreaming && !this.socket) {
+            void this.retryStream();
         }
+    };
 
-        const data = await response.json() as { activities: Activity[]; watermark: string };
+    private handleOffline = (): void => {
+        console.log('📴 Network offline - new messages will be queued');
+    };
+
+    /**
+     * Subscribe to bot activities. Opens the Direct Line WebSocket stream on first
+     * subscription and falls back to watermark polling if the socket is unavailable.
+     * Activities that arrived while nobody was subscribed are delivered first.
+     * Returns an unsubscribe function.
+     */
+    subscribe(listener: ActivityListener): () => void {
+        this.listeners.add(listener);
+        if (this.undelivered.length > 0) {
+            const activities = this.undelivered;
+            this.undelivered = [];
+            this.emit(activities);
+        }
+        this.startStreaming();
+        void this.drainOutbox();
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Close the activity stream, stop any fallback polling, token refreshes and
+     * network listeners
+     */
+    disconnect(): void {
+        console.log('🔌 Disconnecting activity stream');
+        this.isStreaming = false;
+        window.removeEventListener('online', this.handleOnline);
+        window.removeEventListener('offline', this.handleOffline);
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+        this.closeSocket();
+        this.stopPolling();
+        if (this.streamRetryTimer) {
+            clearTimeout(this.streamRetryTimer);
+            this.streamRetryTimer = null;
+        }
+    }
+
+    /**
+     * Start delivering activities to subscribers (no-op if already running)
+     */
+    private startStreaming(): void {
+        if (this.isStreaming || this.sessionStatus === 'expired') {
+            return;
+        }
+        this.isStreaming = true;
+
+        if (this.streamUrl) {
+            this.openSocket(this.streamUrl);
+        } else {
+            void this.retryStream();
+        }
+    }
+
+    /**
+     * Open the Direct Line WebSocket stream
+     */
+    private openSocket(streamUrl: string): void {
+        // Stream URLs are single-use; a dropped socket needs a fresh one
+        this.streamUrl = null;
+
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(streamUrl);
+        } catch (error) {
+            console.warn('⚠️ Could not open stream socket, falling back to polling:', error);
+            this.handleStreamLost();
+            return;
+        }
+        this.socket = socket;
+
+        socket.onopen = () => {
+            console.log('🔌 Activity stream connected');
+            this.stopPolling();
+        };
+
+        socket.onmessage = (event: MessageEvent) => {
+            // Direct Line sends empty messages as keep-alives
+            if (typeof event.data !== 'string' || !event.data) {
+                return;
+            }
+            try {
+                const data = JSON.parse(event.data) as ActivitySet;
+                this.emit(this.processActivitySet(data));
+            } catch (error) {
+                console.error('❌ Failed to process stream message:', error);
+            }
+        };
+
+        socket.onerror = (event) => {
+            console.warn('⚠️ Activity stream error:', event);
+        };
+
+        socket.onclose = () => {
+            if (this.socket !== socket) {
+                return;
+            }
+            this.socket = null;
+            if (this.isStreaming) {
+                console.log('🔌 Activity stream closed, falling back to polling');
+                this.handleStreamLost();
+            }
+        };
+    }
+
+    private closeSocket(): void {
+        if (this.socket) {
+            const socket = this.socket;
+            this.socket = null;
+            socket.close();
+        }
+    }
+
+    /**
+     * Switch to watermark polling and schedule an attempt to restore the stream
+     */
+    private handleStreamLost(): void {
+        if (!this.isStreaming) {
+            return;
+        }
+        this.startPolling();
+
+        if (!this.streamRetryTimer) {
+            this.streamRetryTimer = setTimeout(() => {
+                this.streamRetryTimer = null;
+                void this.retryStream();
+            }, STREAM_RETRY_MS);
+        }
+    }
+
+    /**
+     * Ask Direct Line for a fresh streamUrl and re-open the socket
+     */
+    private async retryStream(): Promise<void> {
+        if (!this.isStreaming || !this.conversationId) {
+            return;
+        }
+        try {
+            const streamUrl = await this.fetchStreamUrl(this.conversationId, this.watermark);
+            if (streamUrl && this.isStreaming) {
+                this.openSocket(streamUrl);
+                return;
+            }
+        } catch (error) {
+            console.warn('⚠️ Could not restore activity stream:', error);
+        }
+        this.handleStreamLost();
+    }
+
+    private startPolling(): void {
+        if (this.pollTimer) {
+            return;
+        }
+        console.log('🔄 Polling for activities every', POLL_INTERVAL_MS, 'ms');
+        this.pollTimer = setInterval(() => {
+            // Each tick is already a retry, so skip ticks while a poll is still running
+            if (this.isPollInFlight) {
+                return;
+            }
+            this.isPollInFlight = true;
+            void this.getMessages({ maxRetries: 0 })
+                .then(activities => this.emit(activities))
+                .catch(error => console.error('Failed to poll messages:', error))
+                .finally(() => {
+                    this.isPollInFlight = false;
+                });
+        }, POLL_INTERVAL_MS);
+    }
+
+    private stopPolling(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+
+    /**
+     * Deliver activities to all subscribers, or hold them until someone subscribes -
+     * the watermark has already moved past them
+     */
+    private emit(activities: Activity[]): void {
+        if (activities.length === 0) {
+            return;
+        }
+        if (this.listeners.size === 0) {
+            this.undelivered.push(...activities);
+            return;
+        }
+        this.listeners.forEach(listener => {
+            try {
+                listener(activities);
+            } catch (error) {
+                console.error('❌ Activity listener failed:', error);
+            }
+        });
+    }
+
+    /**
+     * Track the watermark of an activity set and return only the bot messages and typing activities
+     */
+    private processActivitySet(data: ActivitySet): Activity[] {
+        const activities = data.activities || [];
 
         console.log('📨 Direct Line Response:', {
             oldWatermark: this.watermark,
             newWatermark: data.watermark,
-            activityCount: data.activities.length,
+            activityCount: activities.length,
             conversationId: this.conversationId
         });
 
-        this.watermark = data.watermark;
+        if (data.watermark) {
+            this.watermark = data.watermark;
 
-        // Notify about watermark change for persistence
-        if (this.onStateChange && this.conversationId) {
-            this.onStateChange(this.conversationId, this.watermark);
+            // Notify about watermark change for persistence
+            this.notifyStateChange();
         }
 
-        console.log('All activities from Direct Line:', data.activities);
-        console.log('Activity details:', data.activities.map(a => ({
+        console.log('All activities from Direct Line:', activities);
+        console.log('Activity details:', activities.map(a => ({
             id: a.id,
             type: a.type,
             from: a.from.id,
@@ -352,15 +1027,19 @@ export class CopilotChatService {
             attachments: a.attachments?.map(att => att.contentType)
         })));
 
-        // Filter to only bot messages (not from user, and type is message)
+        activities
+            .filter(activity => activity.type === 'invokeResponse')
+            .forEach(activity => this.resolveInvoke(activity));
+
+        // Filter to only bot messages and typing indicators (not from user)
         // Also filter out silent greeting messages
-        const filtered = data.activities.filter(activity => {
+        const filtered = activities.filter(activity => {
             // Skip user messages
             if (activity.from.id === 'user') {
                 return false;
             }
-            // Skip non-message types
-            if (activity.type !== 'message') {
+            // Skip everything except messages and typing
+            if (activity.type !== 'message' && activity.type !== 'typing') {
                 return false;
             }
             // Skip silent greeting trigger messages (shouldn't appear but filter just in case)
@@ -371,7 +1050,7 @@ export class CopilotChatService {
             return true;
         });
 
-        console.log('Filtered bot messages:', filtered.length);
+        console.log('Filtered bot activities:', filtered.length);
         console.log('Filtered details:', filtered.map(a => ({
             id: a.id,
             text: a.text,
@@ -0,0 +1,77 @@
+/**
+ * Typed errors for Direct Line requests, so the UI can react to each failure differently
+ */
+
+/**
+ * Base class for all Direct Line request failures
+ */
+export class DirectLineError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'DirectLineError';
+        this.status = status;
+    }
+}
+
+/**
+ * The token or secret was rejected (401/403) - a reconnect is required
+ */
+export class AuthError extends DirectLineError {
+    constructor(message: string, status?: number) {
+        super(message, status);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * Direct Line is throttling requests (429) and retries were exhausted
+ */
+export class ThrottledError extends DirectLineError {
+    retryAfterMs?: number;
+
+    constructor(message: string, retryAfterMs?: number) {
+        super(message, 429);
+        this.name = 'ThrottledError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * The conversation or resource no longer exists (404)
+ */
+export class NotFoundError extends DirectLineError {
+    constructor(message: string) {
+        super(message, 404);
+        this.name = 'NotFoundError';
+    }
+}
+
+/**
+ * The request never reached Direct Line (offline, DNS, CORS, connection reset)
+ */
+export class NetworkError extends DirectLineError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NetworkError';
+    }
+}
+
+/**
+ * Map a failed HTTP response to the matching error type
+ */
+export function errorFromResponse(response: Response, message: string, retryAfterMs?: number): DirectLineError {
+    const detail = `${message}: ${response.status} ${response.statusText}`;
+    switch (response.status) {
+        case 401:
+        case 403:
+            return new AuthError(detail, response.status);
+        case 404:
+            return new NotFoundError(detail);
+        case 429:
+            return new ThrottledError(detail, retryAfterMs);
+        default:
+            return new DirectLineError(detail, response.status);
+    }
+}
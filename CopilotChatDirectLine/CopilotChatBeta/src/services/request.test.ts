@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { requestWithRetry } from './request';
+import { AuthError, DirectLineError, NetworkError, NotFoundError, ThrottledError } from './errors';
+
+const respond = (status: number, headers: Record<string, string> = {}): Response =>
+    new Response('{}', { status, headers });
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    fetchMock.mockReset();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+// Small delays so the retry loop finishes quickly on real timers
+const FAST = { baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('requestWithRetry', () => {
+    it('returns the first OK response', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200));
+
+        const response = await requestWithRetry('https://example.test', {}, 'Failed', FAST);
+
+        expect(response.status).toBe(200);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries server errors and throttling until a request succeeds', async () => {
+        fetchMock
+            .mockResolvedValueOnce(respond(503))
+            .mockResolvedValueOnce(respond(429))
+            .mockResolvedValueOnce(respond(200));
+
+        const response = await requestWithRetry('https://example.test', {}, 'Failed', FAST);
+
+        expect(response.status).toBe(200);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries network failures and then rejects with a NetworkError', async () => {
+        fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+        await expect(requestWithRetry('https://example.test', {}, 'Failed to send', { ...FAST, maxRetries: 2 }))
+            .rejects.toThrow(NetworkError);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors', async () => {
+        fetchMock.mockResolvedValueOnce(respond(403));
+        await expect(requestWithRetry('https://example.test', {}, 'Failed', FAST)).rejects.toThrow(AuthError);
+
+        fetchMock.mockResolvedValueOnce(respond(404));
+        await expect(requestWithRetry('https://example.test', {}, 'Failed', FAST)).rejects.toThrow(NotFoundError);
+
+        fetchMock.mockResolvedValueOnce(respond(400));
+        await expect(requestWithRetry('https://example.test', {}, 'Failed', FAST)).rejects.toThrow(DirectLineError);
+
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('rejects with a ThrottledError carrying Retry-After once retries run out', async () => {
+        fetchMock.mockResolvedValue(respond(429, { 'Retry-After': '0' }));
+
+        const error = await requestWithRetry('https://example.test', {}, 'Failed', { ...FAST, maxRetries: 1 })
+            .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ThrottledError);
+        expect((error as ThrottledError).retryAfterMs).toBe(0);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('waits for a Retry-After given in seconds', async () => {
+        vi.useFakeTimers();
+        fetchMock
+            .mockResolvedValueOnce(respond(429, { 'Retry-After': '2' }))
+            .mockResolvedValueOnce(respond(200));
+
+        const request = requestWithRetry('https://example.test', {}, 'Failed');
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect((await request).status).toBe(200);
+    });
+
+    it('waits for a Retry-After given as an HTTP date', async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+        fetchMock
+            .mockResolvedValueOnce(respond(503, { 'Retry-After': 'Thu, 01 Jan 2026 00:00:03 GMT' }))
+            .mockResolvedValueOnce(respond(200));
+
+        const request = requestWithRetry('https://example.test', {}, 'Failed');
+        await vi.advanceTimersByTimeAsync(2999);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect((await request).status).toBe(200);
+    });
+
+    it('does not resend a POST after a server error', async () => {
+        fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200));
+
+        await expect(requestWithRetry('https://example.test', { method: 'POST' }, 'Failed to send', FAST))
+            .rejects.toThrow(DirectLineError);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not resend a POST after a network error while online', async () => {
+        vi.stubGlobal('navigator', { onLine: true });
+        fetchMock.mockRejectedValueOnce(new TypeError('Connection reset')).mockResolvedValueOnce(respond(200));
+
+        await expect(requestWithRetry('https://example.test', { method: 'POST' }, 'Failed to send', FAST))
+            .rejects.toThrow(NetworkError);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('resends a POST that was throttled or never left the browser', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        fetchMock
+            .mockResolvedValueOnce(respond(429, { 'Retry-After': '0' }))
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockResolvedValueOnce(respond(200));
+
+        const response = await requestWithRetry('https://example.test', { method: 'POST' }, 'Failed to send', FAST);
+
+        expect(response.status).toBe(200);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries a POST marked idempotent like any other request', async () => {
+        fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200));
+
+        const response = await requestWithRetry('https://example.test', { method: 'POST' }, 'Failed',
+            { ...FAST, idempotent: true });
+
+        expect(response.status).toBe(200);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('caps Retry-After at the maximum delay', async () => {
+        vi.useFakeTimers();
+        fetchMock
+            .mockResolvedValueOnce(respond(429, { 'Retry-After': '120' }))
+            .mockResolvedValueOnce(respond(200));
+
+        const request = requestWithRetry('https://example.test', {}, 'Failed', { maxDelayMs: 1000 });
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect((await request).status).toBe(200);
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * Shared request layer for Direct Line calls - retries throttling, server and
+ * network failures with exponential backoff and maps failures to typed errors.
+ * Requests that are not safe to send twice (POST by default) are only retried
+ * when they cannot have been processed: on 429, or while the browser is offline.
+ */
+
+import { DirectLineError, NetworkError, errorFromResponse } from './errors';
+
+export interface RetryOptions {
+    maxRetries?: number;    // Retries after the first attempt (default: 3)
+    baseDelayMs?: number;   // First backoff delay (default: 500)
+    maxDelayMs?: number;    // Cap for backoff and Retry-After (default: 10000)
+    idempotent?: boolean;   // Safe to send twice (default: true for everything but POST)
+}
+
+type BackoffOptions = Required<Omit<RetryOptions, 'idempotent'>>;
+
+const DEFAULT_RETRY_OPTIONS: BackoffOptions = {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 10000
+};
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(response: Response): number | undefined {
+    const header = response.headers.get('Retry-After');
+    if (!header) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+    return undefined;
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number, opts: BackoffOptions): number {
+    const exponential = opts.baseDelayMs * Math.pow(2, attempt);
+    // Full jitter keeps many clients from retrying in lockstep
+    return Math.min(opts.maxDelayMs, Math.random() * exponential + opts.baseDelayMs / 2);
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// A request that failed while offline never left the browser
+const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Fetch with retry. Resolves with the OK response, or rejects with a typed DirectLineError.
+ * @param url - Request URL
+ * @param init - Fetch options
+ * @param description - Used in error messages and logs (e.g. "Failed to send message")
+ * @param options - Retry tuning
+ */
+export async function requestWithRetry(
+    url: string,
+    init: RequestInit,
+    description: string,
+    options: RetryOptions = {}
+): Promise<Response> {
+    const { idempotent = (init.method || 'GET').toUpperCase() !== 'POST', ...backoff } = options;
+    const opts: BackoffOptions = { ...DEFAULT_RETRY_OPTIONS, ...backoff };
+    let lastError: DirectLineError | null = null;
+
+    for (let attempt = 0; attempt <= opts.maxRetries; attempt++) {
+        let retryAfterMs: number | undefined;
+
+        try {
+            const response = await fetch(url, init);
+            if (response.ok) {
+                return response;
+            }
+
+            retryAfterMs = parseRetryAfter(response);
+            lastError = errorFromResponse(response, description, retryAfterMs);
+
+            // A 5xx may come after the server acted on the request; a 429 never does
+            if (!isRetryableStatus(response.status) || (!idempotent && response.status !== 429)) {
+                throw lastError;
+            }
+        } catch (error) {
+            if (error instanceof DirectLineError) {
+                throw error;
+            }
+            // fetch only rejects when the request could not be made at all
+            lastError = new NetworkError(`${description}: ${error instanceof Error ? error.message : String(error)}`);
+            // The connection may have dropped after the request was delivered
+            if (!idempotent && !isOffline()) {
+                throw lastError;
+            }
+        }
+
+        if (attempt < opts.maxRetries) {
+            const delay = retryAfterMs !== undefined
+                ? Math.min(retryAfterMs, opts.maxDelayMs)
+                : backoffDelay(attempt, opts);
+            console.warn(`⚠️ ${description} (${lastError.message}) - retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${opts.maxRetries})`);
+            await sleep(delay);
+        }
+    }
+
+    throw lastError!;
+}
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSpeechRecognizer, parseSpeechToTextProvider } from './speechRecognition';
+
+class FakeSpeechRecognition {
+    continuous = true;
+    maxAlternatives = 0;
+}
+
+const AZURE = { speechKey: 'key', speechRegion: 'westus' };
+const WHISPER = { openAIEndpoint: 'https://openai.example.test', openAIKey: 'key' };
+
+// Browser features the providers depend on
+const stubBrowser = ({ webSpeech, recording }: { webSpeech: boolean; recording: boolean }): void => {
+    vi.stubGlobal('window', webSpeech ? { webkitSpeechRecognition: FakeSpeechRecognition } : {});
+    vi.stubGlobal('navigator', recording ? { mediaDevices: { getUserMedia: vi.fn() } } : {});
+    vi.stubGlobal('MediaRecorder', recording ? class {} : undefined);
+};
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('createSpeechRecognizer', () => {
+    it('prefers the browser, then Azure Speech, then Whisper in auto mode', () => {
+        stubBrowser({ webSpeech: true, recording: true });
+        expect(createSpeechRecognizer({ ...AZURE, ...WHISPER })?.provider).toBe('browser');
+
+        stubBrowser({ webSpeech: false, recording: true });
+        expect(createSpeechRecognizer({ ...AZURE, ...WHISPER })?.provider).toBe('azure');
+        expect(createSpeechRecognizer(WHISPER)?.provider).toBe('whisper');
+    });
+
+    it('uses the chosen provider when it is available', () => {
+        stubBrowser({ webSpeech: true, recording: true });
+
+        expect(createSpeechRecognizer({ provider: 'whisper', ...AZURE, ...WHISPER })?.provider).toBe('whisper');
+        expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it('falls back when the chosen provider is not configured', () => {
+        stubBrowser({ webSpeech: true, recording: true });
+
+        expect(createSpeechRecognizer({ provider: 'azure', ...WHISPER })?.provider).toBe('browser');
+        expect(console.warn).toHaveBeenCalledWith("⚠️ Speech-to-text provider 'azure' unavailable, using 'browser'");
+    });
+
+    it('needs recording support for the cloud providers', () => {
+        stubBrowser({ webSpeech: false, recording: false });
+
+        expect(createSpeechRecognizer({ provider: 'azure', ...AZURE, ...WHISPER })).toBeNull();
+    });
+});
+
+describe('parseSpeechToTextProvider', () => {
+    it('normalizes known providers and treats anything else as auto', () => {
+        expect(parseSpeechToTextProvider(' Azure ')).toBe('azure');
+        expect(parseSpeechToTextProvider('WHISPER')).toBe('whisper');
+        expect(parseSpeechToTextProvider('browser')).toBe('browser');
+        expect(parseSpeechToTextProvider('google')).toBe('auto');
+        expect(parseSpeechToTextProvider(undefined)).toBe('auto');
+    });
+});
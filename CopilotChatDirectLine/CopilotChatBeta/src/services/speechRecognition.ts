@@ -0,0 +1,409 @@
+/**
+ * Speech-to-text providers - Web Speech API, Azure Speech and Azure OpenAI Whisper behind one recognizer
+ */
+
+import { convertToWav } from '../utils/audioEncoding';
+import { getLanguage } from '../utils/i18n';
+import { createVoiceActivityDetector, VoiceActivityDetector } from '../utils/voiceActivity';
+
+// The parts of the Web Speech API we use - it isn't in the TypeScript DOM library
+interface WebSpeechRecognitionEvent {
+    results: ArrayLike<ArrayLike<{ transcript: string; confidence: number }> & { isFinal: boolean }>;
+}
+
+interface WebSpeechRecognition {
+    lang: string;
+    continuous: boolean;
+    interimResults: boolean;
+    maxAlternatives: number;
+    onresult: ((event: WebSpeechRecognitionEvent) => void) | null;
+    onerror: ((event: { error: string }) => void) | null;
+    onend: (() => void) | null;
+    start: () => void;
+    stop: () => void;
+    abort: () => void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+// Chrome and Safari still only ship the prefixed constructor
+const getWebSpeechRecognition = (): WebSpeechRecognitionConstructor | undefined => {
+    const speechWindow = window as unknown as {
+        SpeechRecognition?: WebSpeechRecognitionConstructor;
+        webkitSpeechRecognition?: WebSpeechRecognitionConstructor;
+    };
+    return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+export type SpeechToTextProvider = 'browser' | 'azure' | 'whisper';
+
+export interface RecognitionResult {
+    transcript: string;
+    isFinal: boolean;
+    confidence?: number;    // 0-1, when the provider reports one
+}
+
+/**
+ * A recognizer listens for one utterance per start(), like the Web Speech API with continuous off
+ */
+export interface SpeechRecognizer {
+    readonly provider: SpeechToTextProvider;
+    lang: string;
+    interimResults: boolean;
+    onresult: ((result: RecognitionResult) => void) | null;
+    onerror: ((error: string) => void) | null;
+    onend: (() => void) | null;
+    start: () => void;      // Throws if already listening
+    stop: () => void;       // Stop listening and deliver what was heard
+    abort: () => void;      // Stop listening and discard what was heard
+}
+
+export interface SpeechRecognizerOptions {
+    provider?: SpeechToTextProvider | 'auto';
+    speechKey?: string;
+    speechRegion?: string;
+    openAIEndpoint?: string;
+    openAIKey?: string;
+    whisperDeployment?: string;
+}
+
+// Limits for providers that transcribe a finished recording
+const MAX_RECORDING_MS = 15000;
+const NO_SPEECH_TIMEOUT_MS = 8000;
+const END_OF_SPEECH_SILENCE_MS = 1200;
+
+/**
+ * Web Speech API - streams interim results, but is missing in Firefox and flaky in some WebViews
+ */
+class WebSpeechRecognizer implements SpeechRecognizer {
+    readonly provider = 'browser';
+    onresult: ((result: RecognitionResult) => void) | null = null;
+    onerror: ((error: string) => void) | null = null;
+    onend: (() => void) | null = null;
+    private recognition: WebSpeechRecognition;
+
+    constructor(SpeechRecognitionClass: WebSpeechRecognitionConstructor) {
+        this.recognition = new SpeechRecognitionClass();
+        this.recognition.continuous = false;
+        this.recognition.maxAlternatives = 1;
+        this.recognition.onresult = event => {
+            const result = event.results[0];
+            this.onresult?.({
+                transcript: result[0].transcript,
+                isFinal: result.isFinal,
+                confidence: result[0].confidence
+            });
+        };
+        this.recognition.onerror = event => this.onerror?.(event.error);
+        this.recognition.onend = () => this.onend?.();
+    }
+
+    get lang(): string {
+        return this.recognition.lang;
+    }
+
+    set lang(lang: string) {
+        this.recognition.lang = lang;
+    }
+
+    get interimResults(): boolean {
+        return this.recognition.interimResults;
+    }
+
+    set interimResults(interimResults: boolean) {
+        this.recognition.interimResults = interimResults;
+    }
+
+    start(): void {
+        this.recognition.start();
+    }
+
+    stop(): void {
+        this.recognition.stop();
+    }
+
+    abort(): void {
+        this.recognition.abort();
+    }
+}
+
+type RecordingState = 'idle' | 'starting' | 'recording' | 'transcribing';
+
+/**
+ * Records one utterance with MediaRecorder, ends it on silence, then sends it to a cloud service
+ */
+abstract class RecordingRecognizer implements SpeechRecognizer {
+    abstract readonly provider: SpeechToTextProvider;
+    lang = 'en-US';
+    interimResults = false;     // The recording is transcribed once it ends, so there are no interim results
+    onresult: ((result: RecognitionResult) => void) | null = null;
+    onerror: ((error: string) => void) | null = null;
+    onend: (() => void) | null = null;
+    private state: RecordingState = 'idle';
+    private attempt = 0;    // Tells a late microphone grant apart from the current start()
+    private isAborted = false;
+    private heardSpeech = false;
+    private stream: MediaStream | null = null;
+    private recorder: MediaRecorder | null = null;
+    private detector: VoiceActivityDetector | null = null;
+    private chunks: Blob[] = [];
+    private timers: Array<ReturnType<typeof setTimeout>> = [];
+
+    protected abstract transcribe(recording: Blob): Promise<RecognitionResult | null>;
+
+    start(): void {
+        if (this.state !== 'idle') {
+            throw new Error('Speech recognition has already started');
+        }
+        this.state = 'starting';
+        this.isAborted = false;
+        this.heardSpeech = false;
+        this.chunks = [];
+        void this.record(++this.attempt);
+    }
+
+    stop(): void {
+        this.finishRecording();
+    }
+
+    abort(): void {
+        this.isAborted = true;
+        this.finishRecording();
+    }
+
+    private async record(attempt: number): Promise<void> {
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({
+                audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+            });
+        } catch (error) {
+            console.error('❌ Microphone unavailable:', error);
+            if (this.state === 'starting' && attempt === this.attempt) {
+                this.state = 'idle';
+                this.onerror?.(error instanceof DOMException && error.name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture');
+                this.onend?.();
+            }
+            return;
+        }
+
+        // Stopped (or restarted) while waiting for microphone permission
+        if (this.state !== 'starting' || attempt !== this.attempt) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+
+        this.stream = stream;
+        this.state = 'recording';
+        const recorder = new MediaRecorder(stream);
+        recorder.ondataavailable = event => {
+            if (event.data.size > 0) {
+                this.chunks.push(event.data);
+            }
+        };
+        recorder.onstop = () => void this.handleRecordingStopped(recorder.mimeType);
+        this.recorder = recorder;
+        recorder.start();
+        console.log(`🎤 ${this.provider}: recording (${recorder.mimeType || 'default format'})`);
+
+        this.detector = createVoiceActivityDetector(stream, {
+            silenceMs: END_OF_SPEECH_SILENCE_MS,
+            onSpeechStart: () => {
+                this.heardSpeech = true;
+            },
+            onSpeechEnd: () => this.stop()
+        });
+        this.timers.push(setTimeout(() => {
+            if (!this.heardSpeech) {
+                console.log(`🎤 ${this.provider}: no speech heard, giving up`);
+                this.abort();
+            }
+        }, NO_SPEECH_TIMEOUT_MS));
+        this.timers.push(setTimeout(() => this.stop(), MAX_RECORDING_MS));
+    }
+
+    private finishRecording(): void {
+        if (this.state === 'starting') {
+            this.state = 'idle';
+            this.onend?.();
+        } else if (this.state === 'recording') {
+            this.state = 'transcribing';
+            this.timers.forEach(clearTimeout);
+            this.timers = [];
+            this.detector?.stop();
+            this.detector = null;
+            // handleRecordingStopped picks up from here
+            this.recorder?.stop();
+        }
+    }
+
+    private async handleRecordingStopped(mimeType: string): Promise<void> {
+        const recording = new Blob(this.chunks, { type: mimeType });
+        this.chunks = [];
+        this.recorder = null;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.stream = null;
+
+        try {
+            if (!this.isAborted && this.heardSpeech && recording.size > 0) {
+                const result = await this.transcribe(recording);
+                if (result && result.transcript.trim() && !this.isAborted) {
+                    this.onresult?.(result);
+                }
+            }
+        } catch (error) {
+            console.error(`❌ ${this.provider} transcription failed:`, error);
+            this.onerror?.('network');
+        } finally {
+            this.state = 'idle';
+            this.onend?.();
+        }
+    }
+}
+
+// Azure Speech short-audio recognition response (format=detailed)
+interface AzureRecognitionResponse {
+    RecognitionStatus: string;
+    DisplayText?: string;
+    NBest?: Array<{ Confidence: number; Display: string }>;
+}
+
+/**
+ * Azure Speech REST recognition, using the same key and region as Azure TTS
+ */
+class AzureSpeechRecognizer extends RecordingRecognizer {
+    readonly provider = 'azure';
+    private speechKey: string;
+    private speechRegion: string;
+
+    constructor(speechKey: string, speechRegion: string) {
+        super();
+        this.speechKey = speechKey;
+        this.speechRegion = speechRegion;
+    }
+
+    protected async transcribe(recording: Blob): Promise<RecognitionResult | null> {
+        // The REST API only takes WAV/PCM or Ogg/Opus, and browsers mostly record WebM or MP4
+        const wav = await convertToWav(recording, 16000);
+        const url = `https://${this.speechRegion}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1` +
+            `?language=${encodeURIComponent(this.lang)}&format=detailed`;
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Ocp-Apim-Subscription-Key': this.speechKey,
+                'Content-Type': 'audio/wav; codecs=audio/pcm; samplerate=16000',
+                'Accept': 'application/json'
+            },
+            body: wav
+        });
+        if (!response.ok) throw new Error(`Azure Speech recognition error: ${response.status}`);
+
+        const data = await response.json() as AzureRecognitionResponse;
+        if (data.RecognitionStatus !== 'Success') {
+            console.log('🎤 Azure Speech: nothing recognized -', data.RecognitionStatus);
+            return null;
+        }
+        const best = data.NBest?.[0];
+        return { transcript: best?.Display || data.DisplayText || '', isFinal: true, confidence: best?.Confidence };
+    }
+}
+
+// File extension Whisper expects for a recording's MIME type
+const getFileExtension = (mimeType: string): string => {
+    if (mimeType.includes('ogg')) return 'ogg';
+    if (mimeType.includes('mp4')) return 'mp4';
+    if (mimeType.includes('wav')) return 'wav';
+    return 'webm';
+};
+
+/**
+ * Azure OpenAI Whisper transcription, using the same endpoint and key as OpenAI TTS
+ */
+class WhisperRecognizer extends RecordingRecognizer {
+    readonly provider = 'whisper';
+    private endpoint: string;
+    private apiKey: string;
+    private deployment: string;
+
+    constructor(endpoint: string, apiKey: string, deployment: string) {
+        super();
+        this.endpoint = endpoint;
+        this.apiKey = apiKey;
+        this.deployment = deployment;
+    }
+
+    protected async transcribe(recording: Blob): Promise<RecognitionResult | null> {
+        const baseUrl = this.endpoint.replace(/\/$/, '');
+        const url = `${baseUrl}/openai/deployments/${this.deployment}/audio/transcriptions?api-version=2024-06-01`;
+
+        const form = new FormData();
+        form.append('file', recording, `speech.${getFileExtension(recording.type)}`);
+        form.append('language', getLanguage(this.lang));
+        form.append('response_format', 'json');
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'api-key': this.apiKey },
+            body: form
+        });
+        if (!response.ok) throw new Error(`Whisper transcription error: ${response.status}`);
+
+        const data = await response.json() as { text?: string };
+        return { transcript: data.text?.trim() || '', isFinal: true };
+    }
+}
+
+/**
+ * Create a recognizer for the requested provider, falling back to whichever one is available.
+ * 'auto' prefers the browser's own recognition. Returns null if there is no way to recognize speech.
+ */
+export function createSpeechRecognizer(options: SpeechRecognizerOptions = {}): SpeechRecognizer | null {
+    const {
+        provider = 'auto',
+        speechKey,
+        speechRegion,
+        openAIEndpoint,
+        openAIKey,
+        whisperDeployment = 'whisper'
+    } = options;
+
+    const SpeechRecognitionClass = getWebSpeechRecognition();
+    const canRecord = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+    const factories: Record<SpeechToTextProvider, () => SpeechRecognizer | null> = {
+        browser: () => (SpeechRecognitionClass ? new WebSpeechRecognizer(SpeechRecognitionClass) : null),
+        azure: () => (canRecord && speechKey && speechRegion ? new AzureSpeechRecognizer(speechKey, speechRegion) : null),
+        whisper: () => (canRecord && openAIEndpoint && openAIKey
+            ? new WhisperRecognizer(openAIEndpoint, openAIKey, whisperDeployment)
+            : null)
+    };
+
+    const fallbackOrder: SpeechToTextProvider[] = ['browser', 'azure', 'whisper'];
+    const order = provider === 'auto' ? fallbackOrder : [provider, ...fallbackOrder.filter(p => p !== provider)];
+
+    for (const candidate of order) {
+        const recognizer = factories[candidate]();
+        if (recognizer) {
+            if (provider !== 'auto' && candidate !== provider) {
+                console.warn(`⚠️ Speech-to-text provider '${provider}' unavailable, using '${candidate}'`);
+            }
+            console.log('🎤 Speech-to-text provider:', candidate);
+            return recognizer;
+        }
+    }
+
+    console.warn('⚠️ No speech-to-text provider available');
+    return null;
+}
+
+/**
+ * Normalize the speech-to-text provider from the control property; unknown values mean 'auto'
+ */
+export function parseSpeechToTextProvider(value?: string): SpeechToTextProvider | 'auto' {
+    const normalized = (value || '').trim().toLowerCase();
+    if (normalized === 'browser' || normalized === 'azure' || normalized === 'whisper') {
+        return normalized;
+    }
+    return 'auto';
+}
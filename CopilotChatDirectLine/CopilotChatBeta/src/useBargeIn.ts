@@ -0,0 +1,75 @@
+/**
+ * Custom hook that listens to the mic while the bot is talking and fires when the user talks over it.
+ * Echo cancellation keeps the bot's own voice out of the mic; a high level and minimum duration
+ * keep road noise and short sounds from interrupting.
+ */
+
+import React from 'react';
+import { createVoiceActivityDetector, VoiceActivityDetector } from './utils/voiceActivity';
+
+export interface BargeInOptions {
+    threshold?: number;     // RMS level counted as speech (default: 0.06)
+    minSpeechMs?: number;   // Speech must last this long to interrupt (default: 500)
+}
+
+export function useBargeIn(
+    enabled: boolean,
+    onBargeIn: () => void,
+    options: BargeInOptions = {}
+): void {
+    const { threshold = 0.06, minSpeechMs = 500 } = options;
+
+    // Keep the latest handler without restarting the mic each render
+    const onBargeInRef = React.useRef(onBargeIn);
+    onBargeInRef.current = onBargeIn;
+
+    React.useEffect(() => {
+        if (!enabled || !navigator.mediaDevices?.getUserMedia) {
+            return;
+        }
+
+        let isActive = true;
+        let stream: MediaStream | null = null;
+        let detector: VoiceActivityDetector | null = null;
+
+        const release = (): void => {
+            detector?.stop();
+            detector = null;
+            stream?.getTracks().forEach(track => track.stop());
+            stream = null;
+        };
+
+        const listen = async (): Promise<void> => {
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({
+                    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+                });
+            } catch (error) {
+                console.warn('⚠️ Barge-in unavailable, mic not accessible:', error);
+                return;
+            }
+            if (!isActive) {
+                release();
+                return;
+            }
+
+            console.log('👂 Barge-in: listening during playback');
+            detector = createVoiceActivityDetector(stream, {
+                threshold,
+                minSpeechMs,
+                onSpeechStart: () => {
+                    console.log('🗣️ Barge-in: user spoke over playback');
+                    release();
+                    onBargeInRef.current();
+                }
+            });
+        };
+
+        void listen();
+
+        return () => {
+            isActive = false;
+            release();
+        };
+    }, [enabled, threshold, minSpeechMs]);
+}
@@ -0,0 +1,47 @@
+/**
+ * Custom hook that tracks the system color scheme for the 'auto' theme.
+ * A high-contrast request (Windows contrast themes, prefers-contrast: more) wins over dark/light.
+ */
+
+import React from 'react';
+import { ThemePresetName } from './utils/theme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const HIGH_CONTRAST_QUERIES = ['(forced-colors: active)', '(prefers-contrast: more)'];
+
+const getSystemScheme = (): ThemePresetName => {
+    if (typeof window === 'undefined' || !window.matchMedia) {
+        return 'light';
+    }
+    if (HIGH_CONTRAST_QUERIES.some(query => window.matchMedia(query).matches)) {
+        return 'high-contrast';
+    }
+    return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+};
+
+export function useColorScheme(enabled = true): ThemePresetName {
+    const [scheme, setScheme] = React.useState<ThemePresetName>(getSystemScheme);
+
+    React.useEffect(() => {
+        if (!enabled || typeof window === 'undefined' || !window.matchMedia) {
+            return;
+        }
+
+        const handleChange = (): void => {
+            const next = getSystemScheme();
+            console.log('🎨 System color scheme changed:', next);
+            setScheme(next);
+        };
+
+        const queries = [DARK_QUERY, ...HIGH_CONTRAST_QUERIES].map(query => window.matchMedia(query));
+        queries.forEach(query => query.addEventListener('change', handleChange));
+        // Pick up any change since the initial state was read
+        setScheme(getSystemScheme());
+
+        return () => {
+            queries.forEach(query => query.removeEventListener('change', handleChange));
+        };
+    }, [enabled]);
+
+    return scheme;
+}
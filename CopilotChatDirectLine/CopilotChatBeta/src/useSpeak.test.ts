@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The hook module checks the user agent when it loads
+vi.hoisted(() => {
+    vi.stubGlobal('navigator', { userAgent: 'node' });
+});
+
+import { VOICE_PROFILES, buildSsml, escapeXml, getAvailableVoices, getAzureVoiceForLocale } from './useSpeak';
+
+describe('escapeXml', () => {
+    it('escapes markup characters and quotes', () => {
+        expect(escapeXml(`Tom & Jerry <3 "quotes" 'too'`))
+            .toBe('Tom &amp; Jerry &lt;3 &quot;quotes&quot; &apos;too&apos;');
+    });
+});
+
+describe('buildSsml', () => {
+    it('speaks the text in the given language and voice', () => {
+        const ssml = buildSsml('Hola', VOICE_PROFILES['azure-elvira-es-es'], 'es-ES', 1);
+
+        expect(ssml).toContain('xml:lang="es-ES"');
+        expect(ssml).toContain('<voice name="es-ES-ElviraNeural">');
+        expect(ssml).toContain('<prosody rate="1.10" pitch="0%">Hola</prosody>');
+        expect(ssml).not.toContain('mstts:express-as');
+    });
+
+    it('adds the speaking style for voices that have one', () => {
+        const ssml = buildSsml('Hello', VOICE_PROFILES['azure-jenny-friendly'], 'en-US', 1);
+
+        expect(ssml).toContain('<mstts:express-as style="friendly" styledegree="1.5"><prosody');
+    });
+
+    it('escapes bot text so the document stays valid', () => {
+        const ssml = buildSsml('Q&A <b>now</b>', VOICE_PROFILES['azure-jenny-friendly'], 'en-US', 1);
+
+        expect(ssml).toContain('>Q&amp;A &lt;b&gt;now&lt;/b&gt;</prosody>');
+    });
+});
+
+describe('voice selection by locale', () => {
+    it('prefers an exact locale match, then the same language', () => {
+        expect(getAzureVoiceForLocale('fr-CA')?.locale).toBe('fr-CA');
+        expect(getAzureVoiceForLocale('fr-BE')?.locale).toMatch(/^fr-/);
+        expect(getAzureVoiceForLocale('ja-JP')).toBeUndefined();
+    });
+
+    it('lists only voices that speak the language, plus multilingual OpenAI voices', () => {
+        const voices = getAvailableVoices(true, true, 'de-DE');
+
+        expect(voices.filter(voice => voice.provider === 'azure').every(voice => voice.locale === 'de-DE')).toBe(true);
+        expect(voices.some(voice => voice.provider === 'openai')).toBe(true);
+        expect(getAvailableVoices(false, true, 'de-DE').every(voice => voice.provider === 'openai')).toBe(true);
+    });
+});
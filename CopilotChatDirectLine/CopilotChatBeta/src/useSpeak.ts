@@ -3,12 +3,7 @@
  */
 
 import React from 'react';
-
-declare global {
-    interface Window {
-        webkitAudioContext: typeof AudioContext;
-    }
-}
+import { getLanguage, getSpeechLocale } from './utils/i18n';
 
 // Voice profile configuration
 export interface VoiceProfile {
@@ -16,6 +11,7 @@ export interface VoiceProfile {
     voice: string;
     style?: string;
     description: string;
+    locale?: string;    // Language an Azure voice speaks; OpenAI voices are multilingual
 }
 
 // Available voice profiles
@@ -23,6 +19,7 @@ export interface AvailableVoice {
     id: string;
     description: string;
     provider: 'azure' | 'openai';
+    locale?: string;
 }
 
 // Voice profile mapping - combines Azure Speech and OpenAI voices
@@ -32,55 +29,160 @@ export const VOICE_PROFILES: Record<string, VoiceProfile> = {
         provider: 'azure',
         voice: 'en-US-JennyNeural',
         style: 'friendly',
-        description: 'Jenny - Friendly'
+        description: 'Jenny - Friendly',
+        locale: 'en-US'
     },
     'azure-jenny-chat': {
         provider: 'azure',
         voice: 'en-US-JennyNeural',
         style: 'chat',
-        description: 'Jenny - Chat'
+        description: 'Jenny - Chat',
+        locale: 'en-US'
     },
     'azure-jenny-customerservice': {
         provider: 'azure',
         voice: 'en-US-JennyNeural',
         style: 'customerservice',
-        description: 'Jenny - Customer Service'
+        description: 'Jenny - Customer Service',
+        locale: 'en-US'
     },
     'azure-aria-empathetic': {
         provider: 'azure',
         voice: 'en-US-AriaNeural',
         style: 'empathetic',
-        description: 'Aria - Empathetic'
+        description: 'Aria - Empathetic',
+        locale: 'en-US'
     },
     'azure-aria-chat': {
         provider: 'azure',
         voice: 'en-US-AriaNeural',
         style: 'chat',
-        description: 'Aria - Chat'
+        description: 'Aria - Chat',
+        locale: 'en-US'
     },
     'azure-guy-friendly': {
         provider: 'azure',
         voice: 'en-US-GuyNeural',
         style: 'friendly',
-        description: 'Guy - Friendly'
+        description: 'Guy - Friendly',
+        locale: 'en-US'
     },
     'azure-davis-chat': {
         provider: 'azure',
         voice: 'en-US-DavisNeural',
         style: 'chat',
-        description: 'Davis - Chat'
+        description: 'Davis - Chat',
+        locale: 'en-US'
     },
     'azure-sara-friendly': {
         provider: 'azure',
         voice: 'en-US-SaraNeural',
         style: 'friendly',
-        description: 'Sara - Friendly'
+        description: 'Sara - Friendly',
+        locale: 'en-US'
     },
     'azure-sara-chat': {
         provider: 'azure',
         voice: 'en-US-SaraNeural',
         style: 'chat',
-        description: 'Sara - Chat'
+        description: 'Sara - Chat',
+        locale: 'en-US'
+    },
+    'azure-sonia-en-gb': {
+        provider: 'azure',
+        voice: 'en-GB-SoniaNeural',
+        description: 'Sonia - British English',
+        locale: 'en-GB'
+    },
+    'azure-ryan-en-gb': {
+        provider: 'azure',
+        voice: 'en-GB-RyanNeural',
+        description: 'Ryan - British English',
+        locale: 'en-GB'
+    },
+    'azure-elvira-es-es': {
+        provider: 'azure',
+        voice: 'es-ES-ElviraNeural',
+        description: 'Elvira - Español (España)',
+        locale: 'es-ES'
+    },
+    'azure-alvaro-es-es': {
+        provider: 'azure',
+        voice: 'es-ES-AlvaroNeural',
+        description: 'Álvaro - Español (España)',
+        locale: 'es-ES'
+    },
+    'azure-dalia-es-mx': {
+        provider: 'azure',
+        voice: 'es-MX-DaliaNeural',
+        description: 'Dalia - Español (México)',
+        locale: 'es-MX'
+    },
+    'azure-jorge-es-mx': {
+        provider: 'azure',
+        voice: 'es-MX-JorgeNeural',
+        description: 'Jorge - Español (México)',
+        locale: 'es-MX'
+    },
+    'azure-denise-fr-fr': {
+        provider: 'azure',
+        voice: 'fr-FR-DeniseNeural',
+        description: 'Denise - Français (France)',
+        locale: 'fr-FR'
+    },
+    'azure-henri-fr-fr': {
+        provider: 'azure',
+        voice: 'fr-FR-HenriNeural',
+        description: 'Henri - Français (France)',
+        locale: 'fr-FR'
+    },
+    'azure-sylvie-fr-ca': {
+        provider: 'azure',
+        voice: 'fr-CA-SylvieNeural',
+        description: 'Sylvie - Français (Canada)',
+        locale: 'fr-CA'
+    },
+    'azure-antoine-fr-ca': {
+        provider: 'azure',
+        voice: 'fr-CA-AntoineNeural',
+        description: 'Antoine - Français (Canada)',
+        locale: 'fr-CA'
+    },
+    'azure-katja-de-de': {
+        provider: 'azure',
+        voice: 'de-DE-KatjaNeural',
+        description: 'Katja - Deutsch',
+        locale: 'de-DE'
+    },
+    'azure-conrad-de-de': {
+        provider: 'azure',
+        voice: 'de-DE-ConradNeural',
+        description: 'Conrad - Deutsch',
+        locale: 'de-DE'
+    },
+    'azure-elsa-it-it': {
+        provider: 'azure',
+        voice: 'it-IT-ElsaNeural',
+        description: 'Elsa - Italiano',
+        locale: 'it-IT'
+    },
+    'azure-francisca-pt-br': {
+        provider: 'azure',
+        voice: 'pt-BR-FranciscaNeural',
+        description: 'Francisca - Português (Brasil)',
+        locale: 'pt-BR'
+    },
+    'azure-zariyah-ar-sa': {
+        provider: 'azure',
+        voice: 'ar-SA-ZariyahNeural',
+        description: 'Zariyah - العربية',
+        locale: 'ar-SA'
+    },
+    'azure-hamed-ar-sa': {
+        provider: 'azure',
+        voice: 'ar-SA-HamedNeural',
+        description: 'Hamed - العربية',
+        locale: 'ar-SA'
     },
     // OpenAI GPT-4o voices (more natural/conversational)
     'openai-alloy': {
@@ -126,13 +228,20 @@ const LEGACY_VOICE_MAP: Record<string, string> = {
     'sara-friendly': 'azure-sara-friendly'
 };
 
-// Get available voices based on configured providers
-export function getAvailableVoices(hasAzureSpeech: boolean, hasOpenAI: boolean): AvailableVoice[] {
+// Whether a voice profile speaks the language of a locale
+const speaksLanguage = (profile: VoiceProfile, locale: string): boolean =>
+    !profile.locale || getLanguage(profile.locale) === getLanguage(locale);
+
+// Get available voices based on configured providers, limited to voices that speak the locale's language
+export function getAvailableVoices(hasAzureSpeech: boolean, hasOpenAI: boolean, locale?: string): AvailableVoice[] {
     const voices: AvailableVoice[] = [];
 
     Object.entries(VOICE_PROFILES).forEach(([id, config]) => {
+        if (locale && !speaksLanguage(config, locale)) {
+            return;
+        }
         if (config.provider === 'azure' && hasAzureSpeech) {
-            voices.push({ id, description: config.description, provider: 'azure' });
+            voices.push({ id, description: config.description, provider: 'azure', locale: config.locale });
         } else if (config.provider === 'openai' && hasOpenAI) {
             voices.push({ id, description: config.description, provider: 'openai' });
         }
@@ -141,6 +250,33 @@ export function getAvailableVoices(hasAzureSpeech: boolean, hasOpenAI: boolean):
     return voices;
 }
 
+/**
+ * Azure voice profile for a locale: an exact locale match first, then any voice of the same language
+ */
+export function getAzureVoiceForLocale(locale: string): VoiceProfile | undefined {
+    const azureProfiles = Object.values(VOICE_PROFILES).filter(profile => profile.provider === 'azure');
+    return azureProfiles.find(profile => profile.locale?.toLowerCase() === locale.toLowerCase())
+        || azureProfiles.find(profile => speaksLanguage(profile, locale));
+}
+
+// Bot text can contain &, < and quotes, which would otherwise break the SSML document
+export const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+// SSML for Azure Speech; speaking styles are only sent for voices that have one
+export const buildSsml = (text: string, voice: VoiceProfile, locale: string, rate: number): string => {
+    const prosody = `<prosody rate="${(1.1 * rate).toFixed(2)}" pitch="0%">${escapeXml(text)}</prosody>`;
+    const content = voice.style
+        ? `<mstts:express-as style="${escapeXml(voice.style)}" styledegree="1.5">${prosody}</mstts:express-as>`
+        : prosody;
+    return `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="${escapeXml(locale)}"><voice name="${escapeXml(voice.voice)}">${content}</voice></speak>`;
+};
+
 // Detect if running on mobile
 const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent);
 
@@ -239,10 +375,12 @@ export interface UseSpeakOptions {
     openAIDeployment?: string;
     voiceProfile?: string;
     audioUnlocked?: boolean;
+    locale?: string;    // Language to speak in when speak() isn't given one
+    rate?: number;      // Speaking speed multiplier (default: 1)
 }
 
 export interface UseSpeakReturn {
-    speak: (text: string) => Promise<void>;
+    speak: (text: string, locale?: string) => Promise<void>;
     stop: () => void;
     pause: () => void;
     resume: () => void;
@@ -256,15 +394,23 @@ export function useSpeak(options: UseSpeakOptions = {}): UseSpeakReturn {
         openAIKey,
         openAIDeployment = 'tts',
         voiceProfile = 'azure-jenny-friendly',
-        audioUnlocked = false
+        audioUnlocked = false,
+        locale = 'en-US',
+        rate = 1
     } = options;
 
     const audioRef = React.useRef<HTMLAudioElement | null>(null);
     const voiceProfileRef = React.useRef(voiceProfile);
     voiceProfileRef.current = voiceProfile;
+    const localeRef = React.useRef(locale);
+    localeRef.current = locale;
+    const rateRef = React.useRef(rate);
+    rateRef.current = rate;
 
-    const speak = React.useCallback(async (text: string): Promise<void> => {
+    const speak = React.useCallback(async (text: string, textLocale?: string): Promise<void> => {
         let currentVoiceProfile = voiceProfileRef.current;
+        const speechLocale = getSpeechLocale(textLocale || localeRef.current);
+        const speechRate = rateRef.current;
 
         // Handle legacy voice profile names
         if (LEGACY_VOICE_MAP[currentVoiceProfile]) {
@@ -275,7 +421,7 @@ export function useSpeak(options: UseSpeakOptions = {}): UseSpeakReturn {
         const hasAzureSpeech = !!(speechKey && speechRegion);
         const hasOpenAI = !!(openAIEndpoint && openAIKey);
 
-        console.log('🎤 SPEAK - voice:', currentVoiceProfile, 'provider:', voiceConfig?.provider, 'azure:', hasAzureSpeech, 'openai:', hasOpenAI);
+        console.log('🎤 SPEAK - voice:', currentVoiceProfile, 'provider:', voiceConfig?.provider, 'locale:', speechLocale, 'azure:', hasAzureSpeech, 'openai:', hasOpenAI);
 
         if (isMobile && !audioUnlocked && (hasAzureSpeech || hasOpenAI)) {
             console.log('⚠️ Audio not unlocked on mobile');
@@ -301,7 +447,7 @@ export function useSpeak(options: UseSpeakOptions = {}): UseSpeakReturn {
                             input: text,
                             voice: voiceConfig.voice,
                             response_format: 'mp3',  // mp3 works well with Web Audio API
-                            speed: 1.0
+                            speed: speechRate
                         })
                     });
 
@@ -313,9 +459,13 @@ export function useSpeak(options: UseSpeakOptions = {}): UseSpeakReturn {
 
                 // Use Azure Speech (also with streaming)
                 if (voiceConfig.provider === 'azure' && hasAzureSpeech) {
-                    console.log(`🎤 Azure Speech (streaming): ${voiceConfig.voice} (${voiceConfig.style})`);
+                    // Azure voices speak one language - switch voice when the text is in another
+                    const azureVoice = speaksLanguage(voiceConfig, speechLocale)
+                        ? voiceConfig
+                        : getAzureVoiceForLocale(speechLocale) || voiceConfig;
+                    console.log(`🎤 Azure Speech (streaming): ${azureVoice.voice} (${azureVoice.style || 'no style'})`);
 
-                    const ssml = `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="en-US"><voice name="${voiceConfig.voice}"><mstts:express-as style="${voiceConfig.style || 'chat'}" styledegree="1.5"><prosody rate="1.1" pitch="0%">${text}</prosody></mstts:express-as></voice></speak>`;
+                    const ssml = buildSsml(text, azureVoice, speechLocale, speechRate);
 
                     const authToken = await getAzureAuthToken(speechKey!, speechRegion!);
 
@@ -339,8 +489,10 @@ export function useSpeak(options: UseSpeakOptions = {}): UseSpeakReturn {
                 // Fallback scenarios
                 if (voiceConfig.provider === 'openai' && !hasOpenAI && hasAzureSpeech) {
                     console.log('⚠️ OpenAI not configured, using Azure fallback');
-                    const fallback = VOICE_PROFILES['azure-jenny-chat'];
-                    const ssml = `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="en-US"><voice name="${fallback.voice}"><mstts:express-as style="${fallback.style}" styledegree="1.5"><prosody rate="1.1" pitch="0%">${text}</prosody></mstts:express-as></voice></speak>`;
+                    const fallback = getLanguage(speechLocale) === 'en'
+                        ? VOICE_PROFILES['azure-jenny-chat']
+                        : getAzureVoiceForLocale(speechLocale) || VOICE_PROFILES['azure-jenny-chat'];
+                    const ssml = buildSsml(text, fallback, speechLocale, speechRate);
                     const authToken = await getAzureAuthToken(speechKey!, speechRegion!);
                     const response = await fetch(
                         `https://${speechRegion}.tts.speech.microsoft.com/cognitiveservices/v1`,
@@ -373,7 +525,7 @@ export function useSpeak(options: UseSpeakOptions = {}): UseSpeakReturn {
                             input: text,
                             voice: 'echo',
                             response_format: 'mp3',
-                            speed: 1.0
+                            speed: speechRate
                         })
                     });
                     if (!response.ok) throw new Error(`OpenAI TTS error: ${response.status}`);
@@ -390,12 +542,15 @@ export function useSpeak(options: UseSpeakOptions = {}): UseSpeakReturn {
 
         window.speechSynthesis.cancel();
         const utterance = new SpeechSynthesisUtterance(text);
-        utterance.lang = 'en-US';
-        utterance.rate = 1.1;
+        utterance.lang = speechLocale;
+        utterance.rate = 1.1 * speechRate;
 
-        const voices = window.speechSynthesis.getVoices();
+        // Only consider voices for the text's language; some browsers report e.g. 'es_ES'
+        const voices = window.speechSynthesis.getVoices()
+            .filter(v => getLanguage(v.lang.replace('_', '-')) === getLanguage(speechLocale));
         const preferredVoice = voices.find(v => v.name.includes('Natural') || v.name.includes('Neural'))
-            || voices.find(v => v.lang.startsWith('en-US'));
+            || voices.find(v => v.lang.replace('_', '-') === speechLocale)
+            || voices[0];
         if (preferredVoice) utterance.voice = preferredVoice;
 
         window.speechSynthesis.speak(utterance);
@@ -0,0 +1,57 @@
+/**
+ * Custom hook that measures how loud the user is while the mic is listening.
+ * Speech recognizers don't report audio levels, so a second, analysis-only stream is opened alongside.
+ */
+
+import React from 'react';
+import { createVoiceActivityDetector, VoiceActivityDetector } from './utils/voiceActivity';
+
+/**
+ * Returns a getter for the loudest level (RMS, 0-1) heard since listening started,
+ * or null when the level isn't known
+ */
+export function useSpeechLevel(enabled: boolean): () => number | null {
+    const detectorRef = React.useRef<VoiceActivityDetector | null>(null);
+
+    React.useEffect(() => {
+        if (!enabled || !navigator.mediaDevices?.getUserMedia) {
+            return;
+        }
+
+        let isActive = true;
+        let stream: MediaStream | null = null;
+
+        const release = (): void => {
+            detectorRef.current?.stop();
+            detectorRef.current = null;
+            stream?.getTracks().forEach(track => track.stop());
+            stream = null;
+        };
+
+        const measure = async (): Promise<void> => {
+            try {
+                // No auto gain, so quiet background noise isn't boosted to speech level
+                stream = await navigator.mediaDevices.getUserMedia({
+                    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false }
+                });
+            } catch (error) {
+                console.warn('⚠️ Speech level unavailable, mic not accessible:', error);
+                return;
+            }
+            if (!isActive) {
+                release();
+                return;
+            }
+            detectorRef.current = createVoiceActivityDetector(stream);
+        };
+
+        void measure();
+
+        return () => {
+            isActive = false;
+            release();
+        };
+    }, [enabled]);
+
+    return React.useCallback(() => detectorRef.current?.getPeakLevel() ?? null, []);
+}
@@ -6,12 +6,7 @@
  */
 
 import React from 'react';
-
-declare global {
-    interface Window {
-        webkitAudioContext: typeof AudioContext;
-    }
-}
+import { getAudioContextConstructor } from './utils/audioContext';
 
 export interface ThinkingSoundOptions {
     enabled: boolean;
@@ -38,7 +33,7 @@ export function useThinkingSound(
     const playPing = React.useCallback(() => {
         if (!audioContextRef.current) {
             try {
-                audioContextRef.current = new (window.AudioContext || window.webkitAudioContext)();
+                audioContextRef.current = new (getAudioContextConstructor())();
             } catch (e) {
                 console.warn('Web Audio API not supported');
                 return;
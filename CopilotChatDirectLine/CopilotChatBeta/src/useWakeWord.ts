@@ -0,0 +1,68 @@
+/**
+ * Custom hook that listens for the wake phrase while Driving Mode is idle.
+ * Matching runs on the device against the user's recorded samples - no audio leaves the browser.
+ */
+
+import React from 'react';
+import { extractFeatures, listenForUtterances, matchesWakePhrase, UtteranceListener, WakePhraseModel } from './utils/wakeWord';
+
+/**
+ * onWake returns false if it could not start listening, and the hook keeps waiting for the phrase
+ */
+export function useWakeWord(
+    enabled: boolean,
+    model: WakePhraseModel | null,
+    onWake: () => boolean
+): void {
+    // Keep the latest handler without restarting the mic each render
+    const onWakeRef = React.useRef(onWake);
+    onWakeRef.current = onWake;
+
+    React.useEffect(() => {
+        if (!enabled || !model || model.templates.length === 0 || !navigator.mediaDevices?.getUserMedia) {
+            return;
+        }
+
+        let isActive = true;
+        let listener: UtteranceListener | null = null;
+
+        const release = (): void => {
+            listener?.stop();
+            listener = null;
+        };
+
+        const listen = async (): Promise<void> => {
+            try {
+                listener = await listenForUtterances((samples, sampleRate) => {
+                    if (!isActive || !matchesWakePhrase(extractFeatures(samples, sampleRate), model)) {
+                        return;
+                    }
+                    console.log(`🔔 Wake phrase heard: "${model.phrase}"`);
+                    // Free the mic for recognition before handing over
+                    isActive = false;
+                    release();
+                    if (!onWakeRef.current()) {
+                        console.log('👂 Mic busy, still listening for wake phrase');
+                        isActive = true;
+                        void listen();
+                    }
+                });
+            } catch (error) {
+                console.warn('⚠️ Wake phrase unavailable, mic not accessible:', error);
+                return;
+            }
+            if (!isActive) {
+                release();
+                return;
+            }
+            console.log(`👂 Listening for wake phrase "${model.phrase}"`);
+        };
+
+        void listen();
+
+        return () => {
+            isActive = false;
+            release();
+        };
+    }, [enabled, model]);
+}
@@ -0,0 +1,175 @@
+/**
+ * Maps bot activities to the content shown (and spoken) in the chat
+ */
+
+import { Activity, ActivityAttachment } from '../services/CopilotChatService';
+import { getRichCardKind, getRichCardSpeakText } from './richCards';
+import { expandCardTemplate } from './cardTemplating';
+import { Translate } from './i18n';
+
+export const ADAPTIVE_CARD_CONTENT_TYPE = 'application/vnd.microsoft.card.adaptive';
+
+const SIGN_IN_CONTENT_TYPES = [
+    'application/vnd.microsoft.card.oauth',
+    'application/vnd.microsoft.card.signin'
+];
+
+export type AttachmentLayout = 'list' | 'carousel';
+
+// The parts of card content the mapper reads
+interface CardContent {
+    speak?: string;
+    body?: Array<{ text?: string }>;
+    buttons?: Array<{ value?: string }>;
+}
+
+// An Adaptive Card element, as far as reading it out goes
+interface CardElement {
+    type?: string;
+    text?: string;
+    title?: string;
+    label?: string;
+    placeholder?: string;
+    inlines?: Array<string | { text?: string }>;
+    facts?: Array<{ title?: string; value?: string }>;
+    items?: CardElement[];
+    columns?: CardElement[];
+    body?: CardElement[];
+    actions?: CardElement[];
+}
+
+/**
+ * A card read out in full - its text and the titles of its buttons
+ */
+export interface CardReadout {
+    text: string;
+    actions: string[];
+}
+
+/**
+ * Displayable content of a bot activity
+ */
+export interface MappedActivity {
+    text: string;
+    speakText: string;
+    attachments: ActivityAttachment[];  // Everything to render, in order (sign-in cards excluded)
+    attachmentLayout: AttachmentLayout;
+    isSignInCard: boolean;
+    signInUrl?: string;
+}
+
+// Text of the top-level TextBlocks in an Adaptive Card body
+const getCardBodyText = (card: CardContent): string[] =>
+    Array.isArray(card.body)
+        ? card.body.map(item => item.text || '').filter(text => text)
+        : [];
+
+// What to say for an Adaptive Card - its speak property, else its body text
+const getCardSpeakText = (card: CardContent): string => {
+    if (card.speak) {
+        return card.speak;
+    }
+    return getCardBodyText(card).join('. ');
+};
+
+// Every piece of text in a card body, including nested containers, facts and input labels
+const readCardElements = (elements: CardElement[] | undefined): string[] =>
+    (elements || []).flatMap(element => [
+        element.text || '',
+        (element.inlines || []).map(inline => (typeof inline === 'string' ? inline : inline.text || '')).join(''),
+        ...(element.facts || []).map(fact => [fact.title, fact.value].filter(part => part).join(': ')),
+        element.type?.startsWith('Input.') ? element.label || element.placeholder || '' : '',
+        ...readCardElements(element.items),
+        ...readCardElements(element.columns),
+        ...readCardElements(element.body)
+    ].filter(text => text));
+
+/**
+ * Everything on a card, for reading it out on request - unlike the speak text, which is a summary
+ */
+export function getCardReadout(attachment: ActivityAttachment, t: Translate): CardReadout | null {
+    if (attachment.contentType === ADAPTIVE_CARD_CONTENT_TYPE && attachment.content) {
+        const card = attachment.content as CardElement;
+        return {
+            text: readCardElements(card.body).join('. '),
+            actions: (card.actions || []).map(action => action.title || '').filter(title => title)
+        };
+    }
+    const richCardKind = getRichCardKind(attachment.contentType);
+    if (richCardKind) {
+        const buttons = (attachment.content as { buttons?: Array<{ title?: string }> } | undefined)?.buttons || [];
+        return {
+            text: getRichCardSpeakText(richCardKind, attachment.content, t),
+            actions: buttons.map(button => button.title || '').filter(title => title)
+        };
+    }
+    return null;
+}
+
+/**
+ * Map a bot activity, keeping every attachment in the order the bot sent them
+ */
+export function mapBotActivity(activity: Activity, t: Translate): MappedActivity {
+    let text = activity.text || '';
+    let isSignInCard = false;
+    let signInUrl: string | undefined;
+    const attachments: ActivityAttachment[] = [];
+    const spokenParts: string[] = [];
+
+    for (const attachment of activity.attachments || []) {
+        console.log('Attachment detected:', attachment.contentType);
+        const content = attachment.content as CardContent | undefined;
+
+        if (SIGN_IN_CONTENT_TYPES.includes(attachment.contentType)) {
+            isSignInCard = true;
+            text = t('authenticationRequired');
+            if (content?.buttons && content.buttons.length > 0) {
+                signInUrl = content.buttons[0].value;
+                console.log('OAuth card detected, sign-in URL:', signInUrl);
+            }
+            continue;
+        }
+
+        if (attachment.contentType === ADAPTIVE_CARD_CONTENT_TYPE) {
+            if (!content) {
+                continue;
+            }
+            console.log('🎴 Adaptive Card detected:', content);
+            // Bind templates now so speech, text and the stored card all use the expanded card
+            const card = expandCardTemplate(content) as CardContent;
+            const cardSpeak = getCardSpeakText(card);
+            if (cardSpeak) {
+                spokenParts.push(cardSpeak);
+            }
+            if (!text) {
+                text = getCardBodyText(card).join(' ');
+            }
+            attachments.push({ ...attachment, content: card });
+            continue;
+        }
+
+        const richCardKind = getRichCardKind(attachment.contentType);
+        if (richCardKind) {
+            console.log('🃏 Rich card detected:', richCardKind);
+            const cardSpeak = getRichCardSpeakText(richCardKind, attachment.content, t);
+            if (cardSpeak) {
+                spokenParts.push(cardSpeak);
+            }
+        }
+
+        attachments.push(attachment);
+    }
+
+    const speakText = [activity.text || '', ...spokenParts]
+        .filter(part => part)
+        .join('. ');
+
+    return {
+        text,
+        speakText: speakText || text,
+        attachments,
+        attachmentLayout: activity.attachmentLayout === 'carousel' ? 'carousel' : 'list',
+        isSignInCard,
+        signInUrl
+    };
+}
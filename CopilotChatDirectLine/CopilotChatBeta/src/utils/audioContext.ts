@@ -0,0 +1,16 @@
+/**
+ * Audio context - the Web Audio constructor, including the prefixed one older Safari versions use
+ */
+
+declare global {
+    interface Window {
+        webkitAudioContext: typeof AudioContext;
+    }
+}
+
+/**
+ * The AudioContext constructor for this browser
+ */
+export function getAudioContextConstructor(): typeof AudioContext {
+    return window.AudioContext || window.webkitAudioContext;
+}
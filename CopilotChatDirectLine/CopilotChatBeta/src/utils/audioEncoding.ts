@@ -0,0 +1,62 @@
+/**
+ * Audio encoding - converts recorded audio to 16-bit PCM WAV for speech services that need it
+ */
+
+import { getAudioContextConstructor } from './audioContext';
+
+/**
+ * Encode mono samples (-1 to 1) as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+    const dataSize = samples.length * 2;
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+    const writeText = (offset: number, text: string): void => {
+        for (let i = 0; i < text.length; i++) {
+            view.setUint8(offset + i, text.charCodeAt(i));
+        }
+    };
+
+    writeText(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    view.setUint32(16, 16, true);               // fmt chunk size
+    view.setUint16(20, 1, true);                // PCM
+    view.setUint16(22, 1, true);                // Mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);   // Byte rate
+    view.setUint16(32, 2, true);                // Block align
+    view.setUint16(34, 16, true);               // Bits per sample
+    writeText(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    samples.forEach((sample, i) => {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    });
+
+    return new Blob([view], { type: 'audio/wav' });
+}
+
+/**
+ * Decode a recording (webm, ogg, mp4...) and resample it to a mono WAV
+ */
+export async function convertToWav(recording: Blob, sampleRate = 16000): Promise<Blob> {
+    const audioContext = new (getAudioContextConstructor())();
+    let decoded: AudioBuffer;
+    try {
+        decoded = await audioContext.decodeAudioData(await recording.arrayBuffer());
+    } finally {
+        void audioContext.close();
+    }
+
+    // A one-channel offline context down-mixes and resamples in a single render
+    const offlineContext = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * sampleRate)), sampleRate);
+    const source = offlineContext.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offlineContext.destination);
+    source.start();
+    const rendered = await offlineContext.startRendering();
+
+    return encodeWav(rendered.getChannelData(0), sampleRate);
+}
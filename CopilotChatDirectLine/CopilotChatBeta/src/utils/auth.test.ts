@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDirectLineToken, refreshDirectLineToken } from './auth';
+import { AuthError } from '../services/errors';
+
+const respond = (status: number, body: unknown = {}): Response =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+const TOKEN_ENDPOINT = 'https://flow.example.test/token';
+const DIRECT_LINE = 'https://directline.example.test/v3/directline';
+
+describe('getDirectLineToken', () => {
+    it('reads a token from the token endpoint', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200, { token: 'abc', expires_in: 1800, conversationId: 'c1' }));
+
+        await expect(getDirectLineToken({ tokenEndpoint: TOKEN_ENDPOINT }))
+            .resolves.toEqual({ token: 'abc', expiresIn: 1800, conversationId: 'c1' });
+        expect(fetchMock).toHaveBeenCalledWith(TOKEN_ENDPOINT, expect.objectContaining({ method: 'GET' }));
+    });
+
+    it('accepts the PascalCase token flows often return and defaults the lifetime', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200, { Token: 'abc' }));
+
+        await expect(getDirectLineToken({ tokenEndpoint: TOKEN_ENDPOINT }))
+            .resolves.toEqual({ token: 'abc', expiresIn: 1800, conversationId: undefined });
+    });
+
+    it('rejects a response without a token', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200, { expires_in: 1800 }));
+
+        await expect(getDirectLineToken({ tokenEndpoint: TOKEN_ENDPOINT }))
+            .rejects.toThrow('Token response did not contain a token');
+    });
+
+    it('falls back to POST when the endpoint does not allow GET', async () => {
+        fetchMock
+            .mockResolvedValueOnce(respond(405))
+            .mockResolvedValueOnce(respond(200, { token: 'abc' }));
+
+        await expect(getDirectLineToken({ tokenEndpoint: TOKEN_ENDPOINT })).resolves.toMatchObject({ token: 'abc' });
+        expect(fetchMock).toHaveBeenLastCalledWith(TOKEN_ENDPOINT, expect.objectContaining({ method: 'POST' }));
+    });
+
+    it('prefers the token endpoint over a secret', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200, { token: 'abc' }));
+
+        await getDirectLineToken({ tokenEndpoint: TOKEN_ENDPOINT, secret: 's3cret', allowSecret: true });
+
+        expect(fetchMock).toHaveBeenCalledWith(TOKEN_ENDPOINT, expect.anything());
+    });
+
+    it('refuses to use a secret without the opt-in', async () => {
+        await expect(getDirectLineToken({ secret: 's3cret' })).rejects.toThrow(/AllowSecretInBrowser/);
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('exchanges an allowed secret at /tokens/generate', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200, { token: 'abc', expires_in: 3600 }));
+
+        await expect(getDirectLineToken({ secret: 's3cret', allowSecret: true, directLineEndpoint: DIRECT_LINE }))
+            .resolves.toMatchObject({ token: 'abc', expiresIn: 3600 });
+        expect(fetchMock).toHaveBeenCalledWith(`${DIRECT_LINE}/tokens/generate`, expect.objectContaining({
+            method: 'POST',
+            headers: { 'Authorization': 'Bearer s3cret' }
+        }));
+    });
+
+    it('requires a token endpoint or a secret', async () => {
+        await expect(getDirectLineToken({})).rejects.toThrow(/TokenEndpoint/);
+    });
+});
+
+describe('refreshDirectLineToken', () => {
+    it('returns the refreshed token', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200, { token: 'new', expires_in: 1800 }));
+
+        await expect(refreshDirectLineToken('old', DIRECT_LINE)).resolves.toMatchObject({ token: 'new' });
+        expect(fetchMock).toHaveBeenCalledWith(`${DIRECT_LINE}/tokens/refresh`, expect.objectContaining({
+            headers: { 'Authorization': 'Bearer old' }
+        }));
+    });
+
+    it('rejects with an AuthError when the token is no longer valid', async () => {
+        fetchMock.mockResolvedValueOnce(respond(401));
+
+        await expect(refreshDirectLineToken('expired', DIRECT_LINE)).rejects.toThrow(AuthError);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
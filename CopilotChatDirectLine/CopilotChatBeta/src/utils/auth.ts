@@ -2,14 +2,156 @@
  * Authentication utilities for Direct Line
  */
 
+import { requestWithRetry } from '../services/request';
+import { DirectLineError } from '../services/errors';
+
+const DEFAULT_DIRECT_LINE_ENDPOINT = 'https://directline.botframework.com/v3/directline';
+
+/**
+ * Direct Line token with its lifetime
+ */
+export interface DirectLineToken {
+    token: string;
+    expiresIn: number;          // Lifetime in seconds
+    conversationId?: string;    // Set when the token is bound to a conversation
+}
+
+/**
+ * Options for acquiring a Direct Line token
+ */
+export interface TokenOptions {
+    tokenEndpoint?: string;     // Copilot Studio token URL or Power Automate flow returning { token }
+    secret?: string;            // Direct Line secret (only used when allowSecret is set)
+    allowSecret?: boolean;      // Explicit opt-in to exchange a secret from the browser
+    directLineEndpoint?: string;
+}
+
+// Raw token response shape - Direct Line and Copilot Studio use snake_case,
+// flows built in Power Automate often return PascalCase
+interface TokenResponse {
+    token?: string;
+    Token?: string;
+    expires_in?: number;
+    expiresIn?: number;
+    conversationId?: string;
+}
+
+// Direct Line tokens are valid for 30 minutes unless the response says otherwise
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 30 * 60;
+
+function parseTokenResponse(data: TokenResponse): DirectLineToken {
+    const token = data.token || data.Token;
+    if (!token) {
+        throw new Error('Token response did not contain a token');
+    }
+    return {
+        token,
+        expiresIn: data.expires_in ?? data.expiresIn ?? DEFAULT_TOKEN_LIFETIME_SECONDS,
+        conversationId: data.conversationId
+    };
+}
+
+// HTTP status for an endpoint that doesn't accept the method
+const METHOD_NOT_ALLOWED = 405;
+
 /**
- * Get a Direct Line token from the secret.
- * In production, you might want to exchange the secret for a token on the server.
- * @param secret - The Direct Line secret
- * @returns The token (in this implementation, returns the secret directly)
+ * Fetch a token from a token endpoint (Copilot Studio token URL or a Power Automate flow).
+ * The secret never reaches the browser in this mode.
  */
-export async function getDirectLineToken(secret: string): Promise<string> {
-    // For Direct Line, we simply return the secret
-    // In production, you might want to exchange the secret for a token on the server
-    return secret;
+async function fetchTokenFromEndpoint(tokenEndpoint: string): Promise<DirectLineToken> {
+    console.log('🔑 Fetching Direct Line token from token endpoint...');
+    const request = (method: 'GET' | 'POST'): Promise<Response> => requestWithRetry(
+        tokenEndpoint,
+        {
+            method,
+            headers: {
+                'Accept': 'application/json'
+            }
+        },
+        'Failed to get token from token endpoint',
+        { idempotent: true }
+    );
+
+    let response: Response;
+    try {
+        response = await request('GET');
+    } catch (error) {
+        // "When an HTTP request is received" flows only accept POST unless changed
+        if (!(error instanceof DirectLineError) || error.status !== METHOD_NOT_ALLOWED) {
+            throw error;
+        }
+        console.log('🔑 Token endpoint does not accept GET, retrying with POST');
+        response = await request('POST');
+    }
+
+    return parseTokenResponse(await response.json() as TokenResponse);
+}
+
+/**
+ * Exchange a Direct Line secret for a short-lived token via /tokens/generate
+ */
+async function generateTokenFromSecret(secret: string, directLineEndpoint: string): Promise<DirectLineToken> {
+    console.log('🔑 Exchanging Direct Line secret for a token...');
+    const response = await requestWithRetry(
+        `${directLineEndpoint}/tokens/generate`,
+        {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${secret}`
+            }
+        },
+        'Failed to generate token',
+        { idempotent: true }
+    );
+
+    return parseTokenResponse(await response.json() as TokenResponse);
+}
+
+/**
+ * Get a Direct Line token.
+ * Prefers the token endpoint; the secret is only exchanged when explicitly allowed,
+ * because anything passed to the control is visible in the browser.
+ * @param options - Token endpoint and/or secret configuration
+ * @returns The token and its lifetime
+ */
+export async function getDirectLineToken(options: TokenOptions): Promise<DirectLineToken> {
+    const directLineEndpoint = options.directLineEndpoint || DEFAULT_DIRECT_LINE_ENDPOINT;
+
+    if (options.tokenEndpoint) {
+        return fetchTokenFromEndpoint(options.tokenEndpoint);
+    }
+
+    if (options.secret) {
+        if (!options.allowSecret) {
+            throw new Error('Using the Direct Line secret in the browser is disabled. Configure TokenEndpoint, or set AllowSecretInBrowser to opt in.');
+        }
+        console.warn('⚠️ Using Direct Line secret in the browser (AllowSecretInBrowser is on)');
+        return generateTokenFromSecret(options.secret, directLineEndpoint);
+    }
+
+    throw new Error('A TokenEndpoint (or DirectLineSecret with AllowSecretInBrowser) is required');
+}
+
+/**
+ * Refresh a Direct Line token before it expires via /tokens/refresh.
+ * Only works while the current token is still valid; rejects with AuthError otherwise.
+ * @param token - The current (unexpired) token
+ * @param directLineEndpoint - Direct Line endpoint the token was issued for
+ * @returns The new token and its lifetime
+ */
+export async function refreshDirectLineToken(token: string, directLineEndpoint?: string): Promise<DirectLineToken> {
+    const endpoint = directLineEndpoint || DEFAULT_DIRECT_LINE_ENDPOINT;
+    const response = await requestWithRetry(
+        `${endpoint}/tokens/refresh`,
+        {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`
+            }
+        },
+        'Failed to refresh token',
+        { idempotent: true }
+    );
+
+    return parseTokenResponse(await response.json() as TokenResponse);
 }
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { expandCardTemplate } from './cardTemplating';
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+interface ExpandedCard {
+    body: Array<{ type: string; text?: string }>;
+}
+
+describe('expandCardTemplate', () => {
+    it('binds a template sent with separate data', () => {
+        const card = expandCardTemplate({
+            template: {
+                type: 'AdaptiveCard',
+                version: '1.5',
+                body: [{ type: 'TextBlock', text: 'Hello ${name}' }]
+            },
+            data: { name: 'Ada' }
+        }) as ExpandedCard;
+
+        expect(card.body[0].text).toBe('Hello Ada');
+    });
+
+    it('binds inline $data and repeats elements over arrays', () => {
+        const card = expandCardTemplate({
+            type: 'AdaptiveCard',
+            version: '1.5',
+            $data: { items: [{ title: 'One' }, { title: 'Two' }] },
+            body: [{ type: 'TextBlock', $data: '${items}', text: '${title}' }]
+        }) as ExpandedCard;
+
+        expect(card.body.map(element => element.text)).toEqual(['One', 'Two']);
+    });
+
+    it('drops elements whose $when is false', () => {
+        const card = expandCardTemplate({
+            type: 'AdaptiveCard',
+            version: '1.5',
+            $data: { vip: false },
+            body: [
+                { type: 'TextBlock', text: 'Welcome' },
+                { type: 'TextBlock', $when: '${vip}', text: 'VIP lounge' }
+            ]
+        }) as ExpandedCard;
+
+        expect(card.body.map(element => element.text)).toEqual(['Welcome']);
+    });
+
+    it('returns cards without template markers unchanged', () => {
+        const content = { type: 'AdaptiveCard', version: '1.5', body: [{ type: 'TextBlock', text: 'Plain' }] };
+
+        expect(expandCardTemplate(content)).toBe(content);
+    });
+
+    it('passes through empty and non-object content', () => {
+        expect(expandCardTemplate(undefined)).toBeUndefined();
+        expect(expandCardTemplate('text')).toBe('text');
+    });
+});
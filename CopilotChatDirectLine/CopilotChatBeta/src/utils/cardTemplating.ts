@@ -0,0 +1,48 @@
+/**
+ * Client-side Adaptive Card template expansion ($data, $when, ${...} bindings)
+ */
+
+import { Template } from 'adaptivecards-templating';
+
+/**
+ * Template and data sent as separate parts of one attachment
+ */
+interface TemplateEnvelope {
+    template: Record<string, unknown>;
+    data?: unknown;
+}
+
+const isTemplateEnvelope = (content: Record<string, unknown>): boolean =>
+    content.type !== 'AdaptiveCard' && typeof content.template === 'object' && content.template !== null;
+
+// Template markers are ${...} expressions and the $data / $when keywords
+const hasTemplateMarkers = (content: unknown): boolean =>
+    /\$\{|"\$data"|"\$when"/.test(JSON.stringify(content));
+
+/**
+ * Expand an Adaptive Card template against its data.
+ * Accepts a card with inline $data, or { template, data }; anything else is returned unchanged.
+ */
+export function expandCardTemplate(content: unknown): unknown {
+    if (!content || typeof content !== 'object') {
+        return content;
+    }
+
+    const card = content as Record<string, unknown>;
+    try {
+        if (isTemplateEnvelope(card)) {
+            const { template, data } = card as unknown as TemplateEnvelope;
+            console.log('🧩 Expanding Adaptive Card template with data');
+            return new Template(template).expand({ $root: data ?? {} }) as unknown;
+        }
+
+        if (hasTemplateMarkers(card)) {
+            console.log('🧩 Expanding Adaptive Card template with inline $data');
+            return new Template(card).expand({ $root: card.$data ?? {} }) as unknown;
+        }
+    } catch (error) {
+        console.error('❌ Failed to expand Adaptive Card template:', error);
+    }
+
+    return content;
+}
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTranslator, getSpeechLocale, isRtlLocale, resolveLocale } from './i18n';
+import { STRING_TABLES, StringKey } from './strings';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('resolveLocale', () => {
+    it('prefers the Locale property, normalized to BCP 47', () => {
+        expect(resolveLocale('es_mx', 1033)).toBe('es-MX');
+    });
+
+    it('falls back to the PCF user language, then the browser, then en-US', () => {
+        vi.stubGlobal('navigator', { language: 'fr-CA' });
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        expect(resolveLocale('', 1031)).toBe('de-DE');
+        expect(resolveLocale('not a locale!', 99999)).toBe('fr-CA');
+
+        vi.stubGlobal('navigator', { language: '' });
+        expect(resolveLocale(undefined, undefined)).toBe('en-US');
+    });
+});
+
+describe('locale helpers', () => {
+    it('detects right-to-left languages', () => {
+        expect(isRtlLocale('ar-SA')).toBe(true);
+        expect(isRtlLocale('he')).toBe(true);
+        expect(isRtlLocale('en-US')).toBe(false);
+    });
+
+    it('adds a region for speech services', () => {
+        expect(getSpeechLocale('fr')).toBe('fr-FR');
+        expect(getSpeechLocale('es-MX')).toBe('es-MX');
+        expect(getSpeechLocale('xx')).toBe('en-US');
+    });
+});
+
+describe('createTranslator', () => {
+    it('translates and fills placeholders', () => {
+        expect(createTranslator('de-DE')('outboxMany', { count: 3 })).toBe('3 Nachrichten warten auf den Versand');
+    });
+
+    it('falls back to English for unsupported languages', () => {
+        expect(createTranslator('ja-JP')('retry')).toBe('Retry');
+    });
+
+    it('leaves unknown placeholders in place', () => {
+        expect(createTranslator('en-US')('outboxMany')).toBe('{count} messages waiting to send');
+    });
+});
+
+describe('string tables', () => {
+    const keys = Object.keys(STRING_TABLES.en) as StringKey[];
+    const placeholders = (text: string): string[] => (text.match(/\{\w+\}/g) || []).sort();
+
+    it.each(Object.keys(STRING_TABLES).filter(language => language !== 'en'))('%s translates every string', language => {
+        const table = STRING_TABLES[language];
+
+        for (const key of keys) {
+            expect(table[key], key).toBeTruthy();
+            expect(placeholders(table[key]), key).toEqual(placeholders(STRING_TABLES.en[key]));
+        }
+        expect(Object.keys(table).sort()).toEqual([...keys].sort());
+    });
+});
@@ -0,0 +1,137 @@
+/**
+ * Localization - locale resolution, translated UI strings and text direction
+ */
+
+import { STRING_TABLES, StringKey } from './strings';
+
+export type { StringKey } from './strings';
+
+/**
+ * Look up a UI string, filling {placeholders} from params
+ */
+export type Translate = (key: StringKey, params?: Record<string, string | number>) => string;
+
+const FALLBACK_LOCALE = 'en-US';
+
+// Languages written right to left
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur', 'ps', 'yi'];
+
+// PCF reports the user language as a Windows LCID
+const LCID_LOCALES: Record<number, string> = {
+    1025: 'ar-SA',
+    1028: 'zh-TW',
+    1031: 'de-DE',
+    1033: 'en-US',
+    1036: 'fr-FR',
+    1037: 'he-IL',
+    1040: 'it-IT',
+    1041: 'ja-JP',
+    1042: 'ko-KR',
+    1043: 'nl-NL',
+    1045: 'pl-PL',
+    1046: 'pt-BR',
+    1049: 'ru-RU',
+    1053: 'sv-SE',
+    1055: 'tr-TR',
+    2052: 'zh-CN',
+    2057: 'en-GB',
+    2070: 'pt-PT',
+    3081: 'en-AU',
+    3082: 'es-ES',
+    3084: 'fr-CA',
+    4105: 'en-CA',
+    14337: 'ar-AE'
+};
+
+// Region used for speech when the locale names only a language
+const DEFAULT_SPEECH_REGIONS: Record<string, string> = {
+    ar: 'ar-SA',
+    de: 'de-DE',
+    en: 'en-US',
+    es: 'es-ES',
+    fr: 'fr-FR',
+    he: 'he-IL',
+    it: 'it-IT',
+    ja: 'ja-JP',
+    ko: 'ko-KR',
+    nl: 'nl-NL',
+    pt: 'pt-BR',
+    zh: 'zh-CN'
+};
+
+/**
+ * Languages offered for speech recognition, each named in its own language
+ */
+export const SPEECH_LANGUAGES: Array<{ locale: string; name: string }> = [
+    { locale: 'ar-SA', name: 'العربية (السعودية)' },
+    { locale: 'de-DE', name: 'Deutsch (Deutschland)' },
+    { locale: 'en-AU', name: 'English (Australia)' },
+    { locale: 'en-CA', name: 'English (Canada)' },
+    { locale: 'en-GB', name: 'English (United Kingdom)' },
+    { locale: 'en-US', name: 'English (United States)' },
+    { locale: 'es-ES', name: 'Español (España)' },
+    { locale: 'es-MX', name: 'Español (México)' },
+    { locale: 'es-US', name: 'Español (Estados Unidos)' },
+    { locale: 'fr-CA', name: 'Français (Canada)' },
+    { locale: 'fr-FR', name: 'Français (France)' },
+    { locale: 'it-IT', name: 'Italiano (Italia)' },
+    { locale: 'nl-NL', name: 'Nederlands (Nederland)' },
+    { locale: 'pt-BR', name: 'Português (Brasil)' },
+    { locale: 'pt-PT', name: 'Português (Portugal)' }
+];
+
+// Canonical BCP 47 form of a tag, or null if it isn't one
+const canonicalize = (tag?: string | null): string | null => {
+    if (!tag || !tag.trim()) {
+        return null;
+    }
+    try {
+        return Intl.getCanonicalLocales(tag.trim().replace(/_/g, '-'))[0] || null;
+    } catch {
+        console.warn('⚠️ Ignoring invalid locale:', tag);
+        return null;
+    }
+};
+
+/**
+ * Pick the chat locale: the Locale property, then the PCF user language, then the browser
+ */
+export function resolveLocale(locale?: string, userLanguageId?: number): string {
+    return canonicalize(locale)
+        || (userLanguageId ? LCID_LOCALES[userLanguageId] : undefined)
+        || canonicalize(typeof navigator !== 'undefined' ? navigator.language : null)
+        || FALLBACK_LOCALE;
+}
+
+/**
+ * Primary language subtag, e.g. 'es' for 'es-MX'
+ */
+export function getLanguage(locale: string): string {
+    return locale.split('-')[0].toLowerCase();
+}
+
+export function isRtlLocale(locale: string): boolean {
+    return RTL_LANGUAGES.includes(getLanguage(locale));
+}
+
+/**
+ * Locale with a region for speech services, which need e.g. 'fr-FR' rather than 'fr'
+ */
+export function getSpeechLocale(locale: string): string {
+    return locale.includes('-') ? locale : DEFAULT_SPEECH_REGIONS[getLanguage(locale)] || FALLBACK_LOCALE;
+}
+
+/**
+ * Translator for a locale; strings missing from its table fall back to English
+ */
+export function createTranslator(locale: string): Translate {
+    const table = STRING_TABLES[getLanguage(locale)] || STRING_TABLES.en;
+    return (key, params) => {
+        const template = table[key] || STRING_TABLES.en[key];
+        if (!params) {
+            return template;
+        }
+        return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+            name in params ? String(params[name]) : match);
+    };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getRichCardKind, getRichCardSpeakText, RICH_CARD_CONTENT_TYPES } from './richCards';
+import { createTranslator } from './i18n';
+
+const t = createTranslator('en-US');
+
+describe('getRichCardKind', () => {
+    it('maps Bot Framework content types to card kinds', () => {
+        expect(getRichCardKind(RICH_CARD_CONTENT_TYPES.hero)).toBe('hero');
+        expect(getRichCardKind('application/vnd.microsoft.card.receipt')).toBe('receipt');
+        expect(getRichCardKind('application/vnd.microsoft.card.adaptive')).toBeNull();
+    });
+});
+
+describe('getRichCardSpeakText', () => {
+    it('reads the title, subtitle and text of a hero card', () => {
+        expect(getRichCardSpeakText('hero', {
+            title: 'Seattle',
+            subtitle: 'Washington',
+            text: 'Rain all week'
+        }, t)).toBe('Seattle. Washington. Rain all week');
+    });
+
+    it('skips missing parts', () => {
+        expect(getRichCardSpeakText('video', { title: 'Intro' }, t)).toBe('Intro');
+        expect(getRichCardSpeakText('thumbnail', undefined, t)).toBe('');
+    });
+
+    it('reads receipt items and totals', () => {
+        expect(getRichCardSpeakText('receipt', {
+            title: 'Order 1234',
+            items: [{ title: 'Coffee', quantity: '2', price: '$6.00' }, { title: 'Muffin', price: '$3.00' }],
+            tax: '$0.90',
+            total: '$9.90'
+        }, t)).toBe('Order 1234. 2 x Coffee $6.00. Muffin $3.00. Tax $0.90. Total $9.90');
+    });
+
+    it('reads receipt labels in the user language', () => {
+        expect(getRichCardSpeakText('receipt', { vat: '1,20 €', total: '7,20 €' }, createTranslator('de-DE')))
+            .toBe('MwSt. 1,20 €. Gesamt 7,20 €');
+    });
+});
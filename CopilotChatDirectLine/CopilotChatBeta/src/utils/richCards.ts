@@ -0,0 +1,110 @@
+/**
+ * Bot Framework rich card types (hero, thumbnail, receipt, animation, audio, video)
+ */
+
+import { DirectLineCardAction } from '../services/CopilotChatService';
+import { Translate } from './i18n';
+
+export const RICH_CARD_CONTENT_TYPES = {
+    hero: 'application/vnd.microsoft.card.hero',
+    thumbnail: 'application/vnd.microsoft.card.thumbnail',
+    receipt: 'application/vnd.microsoft.card.receipt',
+    animation: 'application/vnd.microsoft.card.animation',
+    audio: 'application/vnd.microsoft.card.audio',
+    video: 'application/vnd.microsoft.card.video'
+} as const;
+
+export type RichCardKind = keyof typeof RICH_CARD_CONTENT_TYPES;
+
+export interface CardImage {
+    url: string;
+    alt?: string;
+    tap?: DirectLineCardAction;
+}
+
+/**
+ * Hero and thumbnail card content
+ */
+export interface BasicCardContent {
+    title?: string;
+    subtitle?: string;
+    text?: string;
+    images?: CardImage[];
+    buttons?: DirectLineCardAction[];
+    tap?: DirectLineCardAction;
+}
+
+/**
+ * Animation, audio and video card content
+ */
+export interface MediaCardContent {
+    title?: string;
+    subtitle?: string;
+    text?: string;
+    image?: CardImage;          // Poster / thumbnail
+    media?: Array<{ url: string; profile?: string }>;
+    buttons?: DirectLineCardAction[];
+    autoloop?: boolean;
+    autostart?: boolean;
+}
+
+export interface ReceiptItem {
+    title?: string;
+    subtitle?: string;
+    text?: string;
+    image?: CardImage;
+    price?: string;
+    quantity?: string;
+    tap?: DirectLineCardAction;
+}
+
+/**
+ * Receipt card content
+ */
+export interface ReceiptCardContent {
+    title?: string;
+    facts?: Array<{ key: string; value: string }>;
+    items?: ReceiptItem[];
+    tax?: string;
+    vat?: string;
+    total?: string;
+    buttons?: DirectLineCardAction[];
+    tap?: DirectLineCardAction;
+}
+
+/**
+ * Which rich card a content type is, or null if it isn't one
+ */
+export function getRichCardKind(contentType: string): RichCardKind | null {
+    const entry = Object.entries(RICH_CARD_CONTENT_TYPES).find(([, type]) => type === contentType);
+    return entry ? entry[0] as RichCardKind : null;
+}
+
+const joinSentences = (parts: Array<string | undefined>): string =>
+    parts.filter(part => part).join('. ');
+
+/**
+ * What to say for a rich card in voice output
+ */
+export function getRichCardSpeakText(kind: RichCardKind, content: unknown, t: Translate): string {
+    if (!content) {
+        return '';
+    }
+
+    if (kind === 'receipt') {
+        const receipt = content as ReceiptCardContent;
+        const items = (receipt.items || []).map(item =>
+            [item.quantity && `${item.quantity} x`, item.title, item.price].filter(part => part).join(' ')
+        );
+        return joinSentences([
+            receipt.title,
+            ...items,
+            receipt.tax && `${t('tax')} ${receipt.tax}`,
+            receipt.vat && `${t('vat')} ${receipt.vat}`,
+            receipt.total && `${t('total')} ${receipt.total}`
+        ]);
+    }
+
+    const card = content as BasicCardContent | MediaCardContent;
+    return joinSentences([card.title, card.subtitle, card.text]);
+}
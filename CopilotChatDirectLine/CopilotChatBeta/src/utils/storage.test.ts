@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OutboxItem, loadOutbox, saveOutbox } from './storage';
+
+/**
+ * localStorage stand-in that throws a quota error once the stored text passes a limit
+ */
+class LimitedStorage {
+    private items = new Map<string, string>();
+
+    constructor(public limit: number) {}
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string): void {
+        let size = value.length;
+        this.items.forEach((stored, storedKey) => {
+            size += storedKey === key ? 0 : stored.length;
+        });
+        if (size > this.limit) {
+            throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+        }
+        this.items.set(key, value);
+    }
+
+    removeItem(key: string): void {
+        this.items.delete(key);
+    }
+}
+
+const item = (id: string, extra: Partial<OutboxItem> = {}): OutboxItem => ({ id, text: `message ${id}`, queuedAt: 0, ...extra });
+
+let storage: LimitedStorage;
+
+beforeEach(() => {
+    storage = new LimitedStorage(10000);
+    vi.stubGlobal('localStorage', storage);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('saveOutbox', () => {
+    it('round-trips queued messages', () => {
+        expect(saveOutbox([item('a'), item('b', { value: { choice: 1 } })])).toBe(true);
+
+        expect(loadOutbox()).toEqual([item('a'), item('b', { value: { choice: 1 } })]);
+    });
+
+    it('never persists messages with attachments', () => {
+        const file = { contentType: 'image/png', contentUrl: 'data:image/png;base64,AAAA', name: 'photo.png' };
+
+        expect(saveOutbox([item('a'), item('b', { attachments: [file] })])).toBe(true);
+
+        expect(loadOutbox().map(i => i.id)).toEqual(['a']);
+    });
+
+    it('drops the saved copy when storage is full so delivered messages are not resent', () => {
+        saveOutbox([item('a'), item('b')]);
+        // Something else fills storage, then 'a' is delivered
+        storage.limit = 0;
+
+        expect(saveOutbox([item('b')])).toBe(false);
+
+        expect(loadOutbox()).toEqual([]);
+    });
+
+    it('saves again once there is room', () => {
+        storage.limit = 0;
+        expect(saveOutbox([item('a')])).toBe(false);
+
+        storage.limit = 10000;
+        expect(saveOutbox([item('a')])).toBe(true);
+        expect(loadOutbox().map(i => i.id)).toEqual(['a']);
+    });
+});
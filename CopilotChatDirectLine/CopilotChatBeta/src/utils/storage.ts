@@ -2,11 +2,17 @@
  * Storage utility for persisting chat state and settings
  */
 
+import { WakePhraseModel } from './wakeWord';
+import { DirectLineCardAction } from '../services/CopilotChatService';
+import { DEFAULT_UTTERANCE_FILTER, UtteranceFilterSettings } from './utteranceFilter';
+
 // Storage keys for localStorage
 const STORAGE_KEYS = {
     SETTINGS: 'copilot_chat_settings',
     MESSAGES: 'copilot_chat_messages',
-    CONVERSATION: 'copilot_chat_conversation'
+    CONVERSATION: 'copilot_chat_conversation',
+    OUTBOX: 'copilot_chat_outbox',
+    WAKE_PHRASE: 'copilot_chat_wake_phrase'
 };
 
 // Settings interface
@@ -15,24 +21,50 @@ export interface ChatSettings {
     voiceProfile: string;
     audioUnlocked: boolean;
     thinkingSoundEnabled: boolean;
+    recognitionLanguage: string;    // Speech recognition locale; empty follows the chat language
+    wakePhraseEnabled: boolean;     // Listen for the wake phrase while Driving Mode is idle
+    speechRate: number;             // Voice output speed multiplier, changed by "slower"/"faster"
+    utteranceFilter: UtteranceFilterSettings;   // Driving Mode noise filtering thresholds
 }
 
+// Delivery status of an outgoing (user) message
+export type MessageStatus = 'sending' | 'queued' | 'sent' | 'failed';
+
 // Stored message interface (with serialized dates)
 export interface StoredMessage {
     id: string;
     text: string;
     isUser: boolean;
     timestamp: string;
+    status?: MessageStatus;
+    activityId?: string;
     speakText?: string;
-    adaptiveCard?: unknown;
+    botAttachments?: Array<{ contentType: string; contentUrl?: string; name?: string; content?: unknown }>;
+    attachmentLayout?: 'list' | 'carousel';
+    cardSubmissions?: Record<number, unknown>;  // Submitted Adaptive Card values by attachment index
+    adaptiveCard?: unknown;     // Legacy single card from older versions; read-only
     isSignInCard?: boolean;
     signInUrl?: string;
+    outgoing?: { text: string; value?: unknown };   // What a user message sent, for retry after a reload
+    suggestedActions?: DirectLineCardAction[];      // Quick replies still on offer
+    locale?: string;                                // Language the bot replied in, for the read-back voice
+}
+
+// Outbox entry - an outgoing message waiting for connectivity
+export interface OutboxItem {
+    id: string;         // Id of the local message bubble this entry delivers
+    text: string;
+    attachments?: Array<{ contentType: string; contentUrl: string; name: string }>;
+    value?: unknown;    // Payload of a postBack/messageBack
+    queuedAt: number;
 }
 
 // Conversation state interface
 export interface ConversationState {
     conversationId: string;
     watermark: string | null;
+    token?: string;             // Token bound to the conversation - a newly generated one can't read it
+    tokenExpiresAt?: number;
     savedAt: number;
 }
 
@@ -41,7 +73,11 @@ const DEFAULT_SETTINGS: ChatSettings = {
     isMuted: false,
     voiceProfile: 'openai-echo', // Default to OpenAI Echo - Warm, conversational
     audioUnlocked: false,
-    thinkingSoundEnabled: true // Default to ON
+    thinkingSoundEnabled: true, // Default to ON
+    recognitionLanguage: '',
+    wakePhraseEnabled: false,
+    speechRate: 1,
+    utteranceFilter: DEFAULT_UTTERANCE_FILTER
 };
 
 // Conversation expiration time (30 minutes) - DirectLine tokens typically last longer,
@@ -69,7 +105,12 @@ export function loadSettings(): ChatSettings {
         if (stored) {
             const settings = JSON.parse(stored) as Partial<ChatSettings>;
             console.log('📂 Settings loaded:', settings);
-            return { ...DEFAULT_SETTINGS, ...settings };
+            // Merge nested settings too, so thresholds added later get their defaults
+            return {
+                ...DEFAULT_SETTINGS,
+                ...settings,
+                utteranceFilter: { ...DEFAULT_UTTERANCE_FILTER, ...settings.utteranceFilter }
+            };
         }
     } catch (error) {
         console.error('Failed to load settings:', error);
@@ -123,11 +164,18 @@ export function clearMessages(): void {
 /**
  * Save conversation state for reconnection
  */
-export function saveConversationState(conversationId: string, watermark: string | null): void {
+export function saveConversationState(
+    conversationId: string,
+    watermark: string | null,
+    token?: string,
+    tokenExpiresAt?: number
+): void {
     try {
         const state: ConversationState = {
             conversationId,
             watermark,
+            token,
+            tokenExpiresAt,
             savedAt: Date.now()
         };
         localStorage.setItem(STORAGE_KEYS.CONVERSATION, JSON.stringify(state));
@@ -173,12 +221,100 @@ export function clearConversationState(): void {
     }
 }
 
+/**
+ * Save the outbox of unsent messages. Attachment content is never persisted, so
+ * messages with files are left out. Returns false if the outbox could not be saved.
+ */
+export function saveOutbox(items: OutboxItem[]): boolean {
+    const persisted = items.filter(item => !item.attachments || item.attachments.length === 0);
+    try {
+        if (persisted.length === 0) {
+            localStorage.removeItem(STORAGE_KEYS.OUTBOX);
+        } else {
+            localStorage.setItem(STORAGE_KEYS.OUTBOX, JSON.stringify(persisted));
+        }
+        console.log('💾 Outbox saved:', persisted.length, 'pending');
+        return true;
+    } catch (error) {
+        // Usually a quota error. Drop the saved copy rather than keep one that
+        // would resend messages delivered since it was written.
+        console.error('Failed to save outbox:', error);
+        clearOutbox();
+        return false;
+    }
+}
+
+/**
+ * Load the outbox of unsent messages
+ */
+export function loadOutbox(): OutboxItem[] {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS.OUTBOX);
+        if (stored) {
+            const items = JSON.parse(stored) as OutboxItem[];
+            console.log('📂 Outbox loaded:', items.length, 'pending');
+            return items;
+        }
+    } catch (error) {
+        console.error('Failed to load outbox:', error);
+    }
+    return [];
+}
+
+/**
+ * Clear the outbox (e.g., when starting new chat)
+ */
+export function clearOutbox(): void {
+    try {
+        localStorage.removeItem(STORAGE_KEYS.OUTBOX);
+        console.log('🗑️ Outbox cleared');
+    } catch (error) {
+        console.error('Failed to clear outbox:', error);
+    }
+}
+
+/**
+ * Save the user's recorded wake phrase samples
+ */
+export function saveWakePhraseModel(model: WakePhraseModel): void {
+    try {
+        // Rounding keeps the stored features small
+        const templates = model.templates.map(template =>
+            template.map(frame => frame.map(value => Math.round(value * 1000) / 1000)));
+        localStorage.setItem(STORAGE_KEYS.WAKE_PHRASE, JSON.stringify({ ...model, templates }));
+        console.log('💾 Wake phrase saved:', model.phrase, `(${templates.length} samples)`);
+    } catch (error) {
+        console.error('Failed to save wake phrase:', error);
+    }
+}
+
+/**
+ * Load the recorded wake phrase samples, if they were recorded for this phrase
+ */
+export function loadWakePhraseModel(phrase: string): WakePhraseModel | null {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEYS.WAKE_PHRASE);
+        if (stored) {
+            const model = JSON.parse(stored) as WakePhraseModel;
+            if (model.phrase.toLowerCase() === phrase.toLowerCase()) {
+                console.log('📂 Wake phrase loaded:', model.phrase);
+                return model;
+            }
+            console.log('🔄 Wake phrase changed, samples need recording again');
+        }
+    } catch (error) {
+        console.error('Failed to load wake phrase:', error);
+    }
+    return null;
+}
+
 /**
  * Clear all stored data (full reset)
  */
 export function clearAllStorage(): void {
     clearMessages();
     clearConversationState();
+    clearOutbox();
     // Note: Not clearing settings - user would need to explicitly reset those
     console.log('🗑️ All chat storage cleared (settings preserved)');
 }
@@ -0,0 +1,662 @@
+/**
+ * Translated UI strings, one table per language. English is the source and the fallback.
+ */
+
+const en = {
+    // Control
+    initializing: 'Initializing chat...',
+    errorMessage: 'Error: {message}',
+    tokenRequired: 'A token endpoint (or Direct Line secret) is required',
+    serviceUnavailable: 'Chat service not available',
+    sessionExpired: 'Your chat session has expired.',
+    reconnect: 'Reconnect',
+
+    // Send errors
+    sendErrorAuth: 'Your session has expired. Reconnect to keep chatting.',
+    sendErrorThrottled: 'Copilot is busy right now. Please try again in a moment.',
+    sendErrorNetwork: 'You appear to be offline. Check your connection and try again.',
+    sendErrorNotFound: 'This conversation is no longer available. Start a new chat to continue.',
+    sendErrorGeneric: 'Your message could not be sent. Please try again.',
+    cardActionFailed: 'That action could not be completed. Please try again.',
+    speechNotSupported: 'Speech recognition not supported in this browser',
+
+    // Chat window
+    newChat: 'New Chat',
+    enterDrivingMode: 'Enter Driving Mode',
+    exitDrivingMode: 'Exit Driving Mode',
+    enableVoice: 'Enable Voice',
+    enableVoicePrompt: 'Tap below to enable voice responses from your Copilot assistant.',
+    enableVoicePromptIOS: 'iOS requires a tap to enable voice responses. Tap below to hear your Copilot assistant.',
+    enableVoiceOutput: 'Enable Voice Output',
+    enableVoiceOutputTitle: 'Required for audio on iOS/Android',
+    enableVoiceOutputHint: 'Tap to enable voice output on mobile devices',
+    maybeLater: 'Maybe later',
+    voiceEnabled: 'Voice enabled',
+    outboxOne: '1 message waiting to send',
+    outboxMany: '{count} messages waiting to send',
+    youAreOffline: 'you are offline',
+    sending: 'Sending...',
+    waitingForConnection: 'Waiting for connection...',
+    lostOnReload: 'Will be lost if the page is reloaded.',
+    notDelivered: 'Not delivered',
+    retry: 'Retry',
+    retryTitle: 'Send this message again',
+    delete: 'Delete',
+    deleteTitle: 'Delete this message',
+    signIn: 'Sign In',
+    authenticationRequired: 'Authentication required',
+    dismiss: 'Dismiss',
+    listening: 'Listening...',
+    voiceInput: 'Voice input',
+    audioControls: 'Audio controls',
+    play: 'Play',
+    pause: 'Pause',
+    stop: 'Stop',
+    settings: 'Settings',
+    filesAttached: '{count} file(s) attached',
+    attachFile: 'Attach file or photo',
+    addMessageOptional: 'Add a message (optional)...',
+    typeMessage: 'Type a message...',
+    sendMessage: 'Send message',
+    sentAttachments: 'Sent attachments',
+    sentFiles: 'Sent {count} file(s)',
+    submitted: 'Submitted',
+    youCanSay: 'You can say: {choices}.',
+    formIncomplete: 'The form isn\'t complete.',
+
+    // Settings panel
+    voiceProfile: 'Voice Profile',
+    noVoiceServices: 'No voice services configured. Contact your admin to enable Azure Speech or OpenAI TTS.',
+    preview: 'Preview',
+    previewTitle: 'Preview this voice',
+    previewText: 'Hello, I\'m your sales assistant. How can I help you today?',
+    using: 'Using:',
+    voiceOutputEnabled: 'Voice output enabled',
+    autoSpeak: 'Auto-Speak Responses',
+    autoSpeakHint: 'Automatically read bot responses aloud',
+    thinkingSound: 'Thinking Sound',
+    thinkingSoundHint: 'Play a subtle ping while waiting for response',
+    drivingMode: 'Driving Mode',
+    drivingModeHint: 'Always-on voice - mic auto-activates when not playing',
+    recognitionLanguage: 'Speech Recognition Language',
+    sameAsChatLanguage: 'Same as chat language',
+    voiceInputFilter: 'Voice Input Filter',
+    voiceInputFilterHint: 'Driving Mode ignores speech that is too uncertain, too quiet or too short. One-word answers are accepted after a question.',
+    minConfidence: 'Minimum confidence: {value}',
+    minSpeechLevel: 'Minimum loudness: {value}',
+    minUtteranceLength: 'Minimum length: {value} characters',
+    filterOff: 'off',
+    resetToDefaults: 'Reset to defaults',
+    wakePhraseListen: 'Listen for "{phrase}"',
+    wakePhraseHint: 'In Driving Mode, say the phrase instead of tapping the mic. Your voice is matched on this device only.',
+    wakePhraseRecord: 'Record phrase',
+    wakePhraseRecordAgain: 'Record again',
+    wakePhraseRecording: 'Say "{phrase}" ({count} of {total})',
+    wakePhraseRecorded: 'Phrase recorded',
+    wakePhraseNotRecorded: 'Record yourself saying the phrase {total} times to turn this on',
+    wakePhraseRecordFailed: 'Didn\'t hear the phrase. Please try again.',
+
+    // Driving Mode modal
+    assistantTitle: 'Copilot Assistant',
+    statusPlaying: 'Playing response - Tap to stop',
+    statusWaiting: 'Copilot is responding... (mic paused)',
+    statusListening: 'Listening... speak now',
+    statusIdle: 'Tap mic to start listening',
+    statusWakePhrase: 'Say "{phrase}" or tap the mic',
+    commandCancelled: 'Cancelled',
+    confirmSend: 'I heard: {text}. Send it?',
+    confirmSendRetry: 'Say yes to send it, no to cancel, or edit to say it again.',
+    confirmSendEdit: 'Okay, say your message again.',
+    nothingToRepeat: 'There is nothing to repeat yet.',
+    noCardToRead: 'There is no card to read.',
+    speechRateSlower: 'Okay, I\'ll speak slower.',
+    speechRateFaster: 'Okay, I\'ll speak faster.',
+    speechRateSlowest: 'This is as slow as I can speak.',
+    speechRateFastest: 'This is as fast as I can speak.',
+    voiceRepliesMuted: 'Voice replies muted. Say "unmute" to hear them again.',
+    voiceRepliesOn: 'Voice replies are back on.',
+    speaking: 'Speaking...',
+    alwaysOnVoice: 'Always-On Voice',
+    youSaid: 'You said:',
+    copilotSaid: 'Copilot:',
+    newConversationTitle: 'Start a new conversation',
+    close: 'Close',
+    closeDrivingModeTitle: 'Close driving mode',
+
+    // Attachments and cards
+    processing: 'Processing...',
+    removeAttachment: 'Remove attachment',
+    image: 'Image',
+    downloadFile: 'Download file',
+    fieldRequired: '{name} is required.',
+    fieldInvalid: '{name} is not valid.',
+    thisField: 'This field',
+    cardRenderError: 'Error rendering card',
+    tax: 'Tax',
+    vat: 'VAT',
+    total: 'Total'
+};
+
+export type StringKey = keyof typeof en;
+export type StringTable = Record<StringKey, string>;
+
+const es: StringTable = {
+    initializing: 'Iniciando el chat...',
+    errorMessage: 'Error: {message}',
+    tokenRequired: 'Se requiere un punto de conexión de token (o un secreto de Direct Line)',
+    serviceUnavailable: 'El servicio de chat no está disponible',
+    sessionExpired: 'Tu sesión de chat ha caducado.',
+    reconnect: 'Reconectar',
+
+    sendErrorAuth: 'Tu sesión ha caducado. Vuelve a conectarte para seguir chateando.',
+    sendErrorThrottled: 'Copilot está ocupado en este momento. Inténtalo de nuevo en un momento.',
+    sendErrorNetwork: 'Parece que no tienes conexión. Comprueba tu conexión e inténtalo de nuevo.',
+    sendErrorNotFound: 'Esta conversación ya no está disponible. Inicia un chat nuevo para continuar.',
+    sendErrorGeneric: 'No se pudo enviar tu mensaje. Inténtalo de nuevo.',
+    cardActionFailed: 'No se pudo completar esa acción. Inténtalo de nuevo.',
+    speechNotSupported: 'Este navegador no admite el reconocimiento de voz',
+
+    newChat: 'Chat nuevo',
+    enterDrivingMode: 'Activar el modo de conducción',
+    exitDrivingMode: 'Salir del modo de conducción',
+    enableVoice: 'Activar la voz',
+    enableVoicePrompt: 'Toca abajo para activar las respuestas de voz de tu asistente Copilot.',
+    enableVoicePromptIOS: 'iOS requiere un toque para activar las respuestas de voz. Toca abajo para escuchar a tu asistente Copilot.',
+    enableVoiceOutput: 'Activar la salida de voz',
+    enableVoiceOutputTitle: 'Necesario para el audio en iOS/Android',
+    enableVoiceOutputHint: 'Toca para activar la salida de voz en dispositivos móviles',
+    maybeLater: 'Quizás más tarde',
+    voiceEnabled: 'Voz activada',
+    outboxOne: '1 mensaje pendiente de envío',
+    outboxMany: '{count} mensajes pendientes de envío',
+    youAreOffline: 'no tienes conexión',
+    sending: 'Enviando...',
+    waitingForConnection: 'Esperando conexión...',
+    lostOnReload: 'Se perderá si recargas la página.',
+    notDelivered: 'No entregado',
+    retry: 'Reintentar',
+    retryTitle: 'Enviar este mensaje de nuevo',
+    delete: 'Eliminar',
+    deleteTitle: 'Eliminar este mensaje',
+    signIn: 'Iniciar sesión',
+    authenticationRequired: 'Se requiere autenticación',
+    dismiss: 'Descartar',
+    listening: 'Escuchando...',
+    voiceInput: 'Entrada de voz',
+    audioControls: 'Controles de audio',
+    play: 'Reproducir',
+    pause: 'Pausa',
+    stop: 'Detener',
+    settings: 'Configuración',
+    filesAttached: '{count} archivo(s) adjunto(s)',
+    attachFile: 'Adjuntar archivo o foto',
+    addMessageOptional: 'Agrega un mensaje (opcional)...',
+    typeMessage: 'Escribe un mensaje...',
+    sendMessage: 'Enviar mensaje',
+    sentAttachments: 'Adjuntos enviados',
+    sentFiles: '{count} archivo(s) enviado(s)',
+    submitted: 'Enviado',
+    youCanSay: 'Puedes decir: {choices}.',
+    formIncomplete: 'El formulario no está completo.',
+
+    voiceProfile: 'Perfil de voz',
+    noVoiceServices: 'No hay servicios de voz configurados. Pide a tu administrador que habilite Azure Speech u OpenAI TTS.',
+    preview: 'Escuchar',
+    previewTitle: 'Escuchar esta voz',
+    previewText: 'Hola, soy tu asistente de ventas. ¿En qué puedo ayudarte hoy?',
+    using: 'Usando:',
+    voiceOutputEnabled: 'Salida de voz activada',
+    autoSpeak: 'Leer respuestas en voz alta',
+    autoSpeakHint: 'Lee automáticamente en voz alta las respuestas del bot',
+    thinkingSound: 'Sonido de espera',
+    thinkingSoundHint: 'Reproduce un sonido suave mientras se espera la respuesta',
+    drivingMode: 'Modo de conducción',
+    drivingModeHint: 'Voz siempre activa: el micrófono se activa solo cuando no se está reproduciendo',
+    recognitionLanguage: 'Idioma de reconocimiento de voz',
+    sameAsChatLanguage: 'Igual que el idioma del chat',
+    voiceInputFilter: 'Filtro de entrada de voz',
+    voiceInputFilterHint: 'El modo de conducción ignora la voz demasiado dudosa, baja o corta. Las respuestas de una palabra se aceptan después de una pregunta.',
+    minConfidence: 'Confianza mínima: {value}',
+    minSpeechLevel: 'Volumen mínimo: {value}',
+    minUtteranceLength: 'Longitud mínima: {value} caracteres',
+    filterOff: 'desactivado',
+    resetToDefaults: 'Restablecer valores predeterminados',
+    wakePhraseListen: 'Escuchar “{phrase}”',
+    wakePhraseHint: 'En el modo de conducción, di la frase en lugar de tocar el micrófono. Tu voz se compara solo en este dispositivo.',
+    wakePhraseRecord: 'Grabar frase',
+    wakePhraseRecordAgain: 'Grabar de nuevo',
+    wakePhraseRecording: 'Di “{phrase}” ({count} de {total})',
+    wakePhraseRecorded: 'Frase grabada',
+    wakePhraseNotRecorded: 'Graba la frase {total} veces para activar esta opción',
+    wakePhraseRecordFailed: 'No se oyó la frase. Inténtalo de nuevo.',
+
+    assistantTitle: 'Asistente Copilot',
+    statusPlaying: 'Reproduciendo respuesta - Toca para detener',
+    statusWaiting: 'Copilot está respondiendo... (micrófono en pausa)',
+    statusListening: 'Escuchando... habla ahora',
+    statusIdle: 'Toca el micrófono para empezar a escuchar',
+    statusWakePhrase: 'Di “{phrase}” o toca el micrófono',
+    commandCancelled: 'Cancelado',
+    confirmSend: 'Entendí: {text}. ¿Lo envío?',
+    confirmSendRetry: 'Di sí para enviarlo, no para cancelar o editar para decirlo de nuevo.',
+    confirmSendEdit: 'De acuerdo, di tu mensaje de nuevo.',
+    nothingToRepeat: 'Todavía no hay nada que repetir.',
+    noCardToRead: 'No hay ninguna tarjeta para leer.',
+    speechRateSlower: 'De acuerdo, hablaré más despacio.',
+    speechRateFaster: 'De acuerdo, hablaré más rápido.',
+    speechRateSlowest: 'No puedo hablar más despacio.',
+    speechRateFastest: 'No puedo hablar más rápido.',
+    voiceRepliesMuted: 'Respuestas de voz silenciadas. Di “activar voz” para volver a oírlas.',
+    voiceRepliesOn: 'Las respuestas de voz vuelven a estar activadas.',
+    speaking: 'Hablando...',
+    alwaysOnVoice: 'Voz siempre activa',
+    youSaid: 'Dijiste:',
+    copilotSaid: 'Copilot:',
+    newConversationTitle: 'Iniciar una conversación nueva',
+    close: 'Cerrar',
+    closeDrivingModeTitle: 'Cerrar el modo de conducción',
+
+    processing: 'Procesando...',
+    removeAttachment: 'Quitar adjunto',
+    image: 'Imagen',
+    downloadFile: 'Descargar archivo',
+    fieldRequired: '{name} es obligatorio.',
+    fieldInvalid: '{name} no es válido.',
+    thisField: 'Este campo',
+    cardRenderError: 'Error al mostrar la tarjeta',
+    tax: 'Impuestos',
+    vat: 'IVA',
+    total: 'Total'
+};
+
+const fr: StringTable = {
+    initializing: 'Initialisation du chat...',
+    errorMessage: 'Erreur : {message}',
+    tokenRequired: 'Un point de terminaison de jeton (ou un secret Direct Line) est requis',
+    serviceUnavailable: 'Le service de chat n\'est pas disponible',
+    sessionExpired: 'Votre session de chat a expiré.',
+    reconnect: 'Se reconnecter',
+
+    sendErrorAuth: 'Votre session a expiré. Reconnectez-vous pour continuer à discuter.',
+    sendErrorThrottled: 'Copilot est occupé pour le moment. Réessayez dans un instant.',
+    sendErrorNetwork: 'Vous semblez être hors ligne. Vérifiez votre connexion et réessayez.',
+    sendErrorNotFound: 'Cette conversation n\'est plus disponible. Démarrez un nouveau chat pour continuer.',
+    sendErrorGeneric: 'Votre message n\'a pas pu être envoyé. Veuillez réessayer.',
+    cardActionFailed: 'Cette action n\'a pas pu être effectuée. Veuillez réessayer.',
+    speechNotSupported: 'La reconnaissance vocale n\'est pas prise en charge par ce navigateur',
+
+    newChat: 'Nouveau chat',
+    enterDrivingMode: 'Activer le mode conduite',
+    exitDrivingMode: 'Quitter le mode conduite',
+    enableVoice: 'Activer la voix',
+    enableVoicePrompt: 'Appuyez ci-dessous pour activer les réponses vocales de votre assistant Copilot.',
+    enableVoicePromptIOS: 'iOS exige un appui pour activer les réponses vocales. Appuyez ci-dessous pour entendre votre assistant Copilot.',
+    enableVoiceOutput: 'Activer la sortie vocale',
+    enableVoiceOutputTitle: 'Requis pour l\'audio sur iOS/Android',
+    enableVoiceOutputHint: 'Appuyez pour activer la sortie vocale sur les appareils mobiles',
+    maybeLater: 'Plus tard',
+    voiceEnabled: 'Voix activée',
+    outboxOne: '1 message en attente d\'envoi',
+    outboxMany: '{count} messages en attente d\'envoi',
+    youAreOffline: 'vous êtes hors ligne',
+    sending: 'Envoi...',
+    waitingForConnection: 'En attente de connexion...',
+    lostOnReload: 'Sera perdu si vous rechargez la page.',
+    notDelivered: 'Non remis',
+    retry: 'Réessayer',
+    retryTitle: 'Renvoyer ce message',
+    delete: 'Supprimer',
+    deleteTitle: 'Supprimer ce message',
+    signIn: 'Se connecter',
+    authenticationRequired: 'Authentification requise',
+    dismiss: 'Fermer',
+    listening: 'Écoute...',
+    voiceInput: 'Saisie vocale',
+    audioControls: 'Commandes audio',
+    play: 'Lire',
+    pause: 'Pause',
+    stop: 'Arrêter',
+    settings: 'Paramètres',
+    filesAttached: '{count} fichier(s) joint(s)',
+    attachFile: 'Joindre un fichier ou une photo',
+    addMessageOptional: 'Ajouter un message (facultatif)...',
+    typeMessage: 'Tapez un message...',
+    sendMessage: 'Envoyer le message',
+    sentAttachments: 'Pièces jointes envoyées',
+    sentFiles: '{count} fichier(s) envoyé(s)',
+    submitted: 'Envoyé',
+    youCanSay: 'Vous pouvez dire : {choices}.',
+    formIncomplete: 'Le formulaire n\'est pas complet.',
+
+    voiceProfile: 'Profil de voix',
+    noVoiceServices: 'Aucun service vocal configuré. Demandez à votre administrateur d\'activer Azure Speech ou OpenAI TTS.',
+    preview: 'Écouter',
+    previewTitle: 'Écouter cette voix',
+    previewText: 'Bonjour, je suis votre assistant commercial. Comment puis-je vous aider aujourd\'hui ?',
+    using: 'Utilise :',
+    voiceOutputEnabled: 'Sortie vocale activée',
+    autoSpeak: 'Lire les réponses à voix haute',
+    autoSpeakHint: 'Lit automatiquement les réponses du bot à voix haute',
+    thinkingSound: 'Son d\'attente',
+    thinkingSoundHint: 'Émet un léger signal sonore en attendant la réponse',
+    drivingMode: 'Mode conduite',
+    drivingModeHint: 'Voix toujours active : le micro s\'active automatiquement hors lecture',
+    recognitionLanguage: 'Langue de reconnaissance vocale',
+    sameAsChatLanguage: 'Identique à la langue du chat',
+    voiceInputFilter: 'Filtre de saisie vocale',
+    voiceInputFilterHint: 'Le mode conduite ignore la parole trop incertaine, trop faible ou trop courte. Les réponses d\'un mot sont acceptées après une question.',
+    minConfidence: 'Confiance minimale : {value}',
+    minSpeechLevel: 'Volume minimal : {value}',
+    minUtteranceLength: 'Longueur minimale : {value} caractères',
+    filterOff: 'désactivé',
+    resetToDefaults: 'Rétablir les valeurs par défaut',
+    wakePhraseListen: 'Écouter « {phrase} »',
+    wakePhraseHint: 'En mode conduite, dites la phrase au lieu d\'appuyer sur le micro. Votre voix est comparée uniquement sur cet appareil.',
+    wakePhraseRecord: 'Enregistrer la phrase',
+    wakePhraseRecordAgain: 'Enregistrer à nouveau',
+    wakePhraseRecording: 'Dites « {phrase} » ({count} sur {total})',
+    wakePhraseRecorded: 'Phrase enregistrée',
+    wakePhraseNotRecorded: 'Enregistrez la phrase {total} fois pour activer cette option',
+    wakePhraseRecordFailed: 'Phrase non entendue. Veuillez réessayer.',
+
+    assistantTitle: 'Assistant Copilot',
+    statusPlaying: 'Lecture de la réponse - Appuyez pour arrêter',
+    statusWaiting: 'Copilot répond... (micro en pause)',
+    statusListening: 'Écoute... parlez maintenant',
+    statusIdle: 'Appuyez sur le micro pour commencer l\'écoute',
+    statusWakePhrase: 'Dites « {phrase} » ou appuyez sur le micro',
+    commandCancelled: 'Annulé',
+    confirmSend: 'J\'ai entendu : {text}. Je l\'envoie ?',
+    confirmSendRetry: 'Dites oui pour l\'envoyer, non pour annuler ou modifier pour le redire.',
+    confirmSendEdit: 'D\'accord, redites votre message.',
+    nothingToRepeat: 'Il n\'y a encore rien à répéter.',
+    noCardToRead: 'Il n\'y a aucune carte à lire.',
+    speechRateSlower: 'D\'accord, je vais parler plus lentement.',
+    speechRateFaster: 'D\'accord, je vais parler plus vite.',
+    speechRateSlowest: 'Je ne peux pas parler plus lentement.',
+    speechRateFastest: 'Je ne peux pas parler plus vite.',
+    voiceRepliesMuted: 'Réponses vocales coupées. Dites « remettre le son » pour les réentendre.',
+    voiceRepliesOn: 'Les réponses vocales sont réactivées.',
+    speaking: 'Parle...',
+    alwaysOnVoice: 'Voix toujours active',
+    youSaid: 'Vous avez dit :',
+    copilotSaid: 'Copilot :',
+    newConversationTitle: 'Démarrer une nouvelle conversation',
+    close: 'Fermer',
+    closeDrivingModeTitle: 'Fermer le mode conduite',
+
+    processing: 'Traitement...',
+    removeAttachment: 'Supprimer la pièce jointe',
+    image: 'Image',
+    downloadFile: 'Télécharger le fichier',
+    fieldRequired: '{name} est obligatoire.',
+    fieldInvalid: '{name} n\'est pas valide.',
+    thisField: 'Ce champ',
+    cardRenderError: 'Erreur d\'affichage de la carte',
+    tax: 'Taxes',
+    vat: 'TVA',
+    total: 'Total'
+};
+
+const de: StringTable = {
+    initializing: 'Chat wird gestartet...',
+    errorMessage: 'Fehler: {message}',
+    tokenRequired: 'Ein Token-Endpunkt (oder ein Direct Line-Geheimnis) ist erforderlich',
+    serviceUnavailable: 'Der Chatdienst ist nicht verfügbar',
+    sessionExpired: 'Ihre Chatsitzung ist abgelaufen.',
+    reconnect: 'Erneut verbinden',
+
+    sendErrorAuth: 'Ihre Sitzung ist abgelaufen. Verbinden Sie sich erneut, um weiterzuchatten.',
+    sendErrorThrottled: 'Copilot ist gerade ausgelastet. Bitte versuchen Sie es gleich noch einmal.',
+    sendErrorNetwork: 'Sie scheinen offline zu sein. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+    sendErrorNotFound: 'Diese Unterhaltung ist nicht mehr verfügbar. Starten Sie einen neuen Chat, um fortzufahren.',
+    sendErrorGeneric: 'Ihre Nachricht konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+    cardActionFailed: 'Diese Aktion konnte nicht ausgeführt werden. Bitte versuchen Sie es erneut.',
+    speechNotSupported: 'Spracherkennung wird von diesem Browser nicht unterstützt',
+
+    newChat: 'Neuer Chat',
+    enterDrivingMode: 'Fahrmodus starten',
+    exitDrivingMode: 'Fahrmodus beenden',
+    enableVoice: 'Sprachausgabe aktivieren',
+    enableVoicePrompt: 'Tippen Sie unten, um die Sprachantworten Ihres Copilot-Assistenten zu aktivieren.',
+    enableVoicePromptIOS: 'iOS erfordert ein Antippen, um Sprachantworten zu aktivieren. Tippen Sie unten, um Ihren Copilot-Assistenten zu hören.',
+    enableVoiceOutput: 'Sprachausgabe aktivieren',
+    enableVoiceOutputTitle: 'Erforderlich für Audio unter iOS/Android',
+    enableVoiceOutputHint: 'Tippen, um die Sprachausgabe auf Mobilgeräten zu aktivieren',
+    maybeLater: 'Später',
+    voiceEnabled: 'Sprachausgabe aktiviert',
+    outboxOne: '1 Nachricht wartet auf den Versand',
+    outboxMany: '{count} Nachrichten warten auf den Versand',
+    youAreOffline: 'Sie sind offline',
+    sending: 'Wird gesendet...',
+    waitingForConnection: 'Warten auf Verbindung...',
+    lostOnReload: 'Geht beim Neuladen der Seite verloren.',
+    notDelivered: 'Nicht zugestellt',
+    retry: 'Wiederholen',
+    retryTitle: 'Diese Nachricht erneut senden',
+    delete: 'Löschen',
+    deleteTitle: 'Diese Nachricht löschen',
+    signIn: 'Anmelden',
+    authenticationRequired: 'Anmeldung erforderlich',
+    dismiss: 'Schließen',
+    listening: 'Hört zu...',
+    voiceInput: 'Spracheingabe',
+    audioControls: 'Audiosteuerung',
+    play: 'Wiedergabe',
+    pause: 'Pause',
+    stop: 'Stopp',
+    settings: 'Einstellungen',
+    filesAttached: '{count} Datei(en) angehängt',
+    attachFile: 'Datei oder Foto anhängen',
+    addMessageOptional: 'Nachricht hinzufügen (optional)...',
+    typeMessage: 'Nachricht eingeben...',
+    sendMessage: 'Nachricht senden',
+    sentAttachments: 'Anhänge gesendet',
+    sentFiles: '{count} Datei(en) gesendet',
+    submitted: 'Gesendet',
+    youCanSay: 'Sie können sagen: {choices}.',
+    formIncomplete: 'Das Formular ist nicht vollständig.',
+
+    voiceProfile: 'Stimmprofil',
+    noVoiceServices: 'Keine Sprachdienste konfiguriert. Bitten Sie Ihren Administrator, Azure Speech oder OpenAI TTS zu aktivieren.',
+    preview: 'Anhören',
+    previewTitle: 'Diese Stimme anhören',
+    previewText: 'Hallo, ich bin Ihr Vertriebsassistent. Wie kann ich Ihnen heute helfen?',
+    using: 'Verwendet:',
+    voiceOutputEnabled: 'Sprachausgabe aktiviert',
+    autoSpeak: 'Antworten vorlesen',
+    autoSpeakHint: 'Antworten des Bots automatisch vorlesen',
+    thinkingSound: 'Wartesignal',
+    thinkingSoundHint: 'Einen dezenten Ton abspielen, während auf die Antwort gewartet wird',
+    drivingMode: 'Fahrmodus',
+    drivingModeHint: 'Sprache immer aktiv – das Mikrofon schaltet sich ein, wenn nichts abgespielt wird',
+    recognitionLanguage: 'Sprache der Spracherkennung',
+    sameAsChatLanguage: 'Wie die Chatsprache',
+    voiceInputFilter: 'Spracheingabefilter',
+    voiceInputFilterHint: 'Der Fahrmodus ignoriert zu unsichere, zu leise oder zu kurze Sprache. Antworten mit einem Wort werden nach einer Frage akzeptiert.',
+    minConfidence: 'Mindestkonfidenz: {value}',
+    minSpeechLevel: 'Mindestlautstärke: {value}',
+    minUtteranceLength: 'Mindestlänge: {value} Zeichen',
+    filterOff: 'aus',
+    resetToDefaults: 'Auf Standardwerte zurücksetzen',
+    wakePhraseListen: 'Auf „{phrase}“ hören',
+    wakePhraseHint: 'Im Fahrmodus die Phrase sagen, statt auf das Mikrofon zu tippen. Ihre Stimme wird nur auf diesem Gerät abgeglichen.',
+    wakePhraseRecord: 'Phrase aufnehmen',
+    wakePhraseRecordAgain: 'Erneut aufnehmen',
+    wakePhraseRecording: '„{phrase}“ sagen ({count} von {total})',
+    wakePhraseRecorded: 'Phrase aufgenommen',
+    wakePhraseNotRecorded: 'Die Phrase {total}-mal aufnehmen, um dies einzuschalten',
+    wakePhraseRecordFailed: 'Phrase nicht gehört. Bitte erneut versuchen.',
+
+    assistantTitle: 'Copilot-Assistent',
+    statusPlaying: 'Antwort wird abgespielt – zum Stoppen tippen',
+    statusWaiting: 'Copilot antwortet... (Mikrofon pausiert)',
+    statusListening: 'Hört zu... jetzt sprechen',
+    statusIdle: 'Auf das Mikrofon tippen, um zuzuhören',
+    statusWakePhrase: '„{phrase}“ sagen oder auf das Mikrofon tippen',
+    commandCancelled: 'Abgebrochen',
+    confirmSend: 'Ich habe verstanden: {text}. Senden?',
+    confirmSendRetry: 'Sagen Sie ja zum Senden, nein zum Abbrechen oder ändern, um es neu zu sagen.',
+    confirmSendEdit: 'Okay, sagen Sie Ihre Nachricht noch einmal.',
+    nothingToRepeat: 'Es gibt noch nichts zu wiederholen.',
+    noCardToRead: 'Es gibt keine Karte zum Vorlesen.',
+    speechRateSlower: 'Okay, ich spreche langsamer.',
+    speechRateFaster: 'Okay, ich spreche schneller.',
+    speechRateSlowest: 'Langsamer kann ich nicht sprechen.',
+    speechRateFastest: 'Schneller kann ich nicht sprechen.',
+    voiceRepliesMuted: 'Sprachantworten stummgeschaltet. Sagen Sie „Ton an“, um sie wieder zu hören.',
+    voiceRepliesOn: 'Sprachantworten sind wieder eingeschaltet.',
+    speaking: 'Spricht...',
+    alwaysOnVoice: 'Sprache immer aktiv',
+    youSaid: 'Sie sagten:',
+    copilotSaid: 'Copilot:',
+    newConversationTitle: 'Neue Unterhaltung starten',
+    close: 'Schließen',
+    closeDrivingModeTitle: 'Fahrmodus schließen',
+
+    processing: 'Wird verarbeitet...',
+    removeAttachment: 'Anhang entfernen',
+    image: 'Bild',
+    downloadFile: 'Datei herunterladen',
+    fieldRequired: '{name} ist erforderlich.',
+    fieldInvalid: '{name} ist ungültig.',
+    thisField: 'Dieses Feld',
+    cardRenderError: 'Fehler beim Anzeigen der Karte',
+    tax: 'Steuer',
+    vat: 'MwSt.',
+    total: 'Gesamt'
+};
+
+const ar: StringTable = {
+    initializing: 'جارٍ بدء الدردشة...',
+    errorMessage: 'خطأ: {message}',
+    tokenRequired: 'يلزم توفير نقطة نهاية للرمز المميز (أو سر Direct Line)',
+    serviceUnavailable: 'خدمة الدردشة غير متوفرة',
+    sessionExpired: 'انتهت صلاحية جلسة الدردشة.',
+    reconnect: 'إعادة الاتصال',
+
+    sendErrorAuth: 'انتهت صلاحية جلستك. أعد الاتصال لمتابعة الدردشة.',
+    sendErrorThrottled: 'Copilot مشغول الآن. يرجى المحاولة مرة أخرى بعد قليل.',
+    sendErrorNetwork: 'يبدو أنك غير متصل. تحقق من اتصالك وحاول مرة أخرى.',
+    sendErrorNotFound: 'لم تعد هذه المحادثة متاحة. ابدأ دردشة جديدة للمتابعة.',
+    sendErrorGeneric: 'تعذر إرسال رسالتك. يرجى المحاولة مرة أخرى.',
+    cardActionFailed: 'تعذر إكمال هذا الإجراء. يرجى المحاولة مرة أخرى.',
+    speechNotSupported: 'التعرف على الكلام غير مدعوم في هذا المتصفح',
+
+    newChat: 'دردشة جديدة',
+    enterDrivingMode: 'تشغيل وضع القيادة',
+    exitDrivingMode: 'الخروج من وضع القيادة',
+    enableVoice: 'تمكين الصوت',
+    enableVoicePrompt: 'اضغط أدناه لتمكين الردود الصوتية من مساعد Copilot.',
+    enableVoicePromptIOS: 'يتطلب iOS الضغط لتمكين الردود الصوتية. اضغط أدناه لسماع مساعد Copilot.',
+    enableVoiceOutput: 'تمكين الإخراج الصوتي',
+    enableVoiceOutputTitle: 'مطلوب لتشغيل الصوت على iOS/Android',
+    enableVoiceOutputHint: 'اضغط لتمكين الإخراج الصوتي على الأجهزة المحمولة',
+    maybeLater: 'ربما لاحقًا',
+    voiceEnabled: 'تم تمكين الصوت',
+    outboxOne: 'رسالة واحدة في انتظار الإرسال',
+    outboxMany: '{count} رسائل في انتظار الإرسال',
+    youAreOffline: 'أنت غير متصل',
+    sending: 'جارٍ الإرسال...',
+    waitingForConnection: 'في انتظار الاتصال...',
+    lostOnReload: 'ستفقد هذه الرسالة إذا أعدت تحميل الصفحة.',
+    notDelivered: 'لم يتم التسليم',
+    retry: 'إعادة المحاولة',
+    retryTitle: 'إرسال هذه الرسالة مرة أخرى',
+    delete: 'حذف',
+    deleteTitle: 'حذف هذه الرسالة',
+    signIn: 'تسجيل الدخول',
+    authenticationRequired: 'المصادقة مطلوبة',
+    dismiss: 'إغلاق',
+    listening: 'جارٍ الاستماع...',
+    voiceInput: 'إدخال صوتي',
+    audioControls: 'عناصر التحكم في الصوت',
+    play: 'تشغيل',
+    pause: 'إيقاف مؤقت',
+    stop: 'إيقاف',
+    settings: 'الإعدادات',
+    filesAttached: 'تم إرفاق {count} ملف',
+    attachFile: 'إرفاق ملف أو صورة',
+    addMessageOptional: 'أضف رسالة (اختياري)...',
+    typeMessage: 'اكتب رسالة...',
+    sendMessage: 'إرسال الرسالة',
+    sentAttachments: 'تم إرسال المرفقات',
+    sentFiles: 'تم إرسال {count} ملف',
+    submitted: 'تم الإرسال',
+    youCanSay: 'يمكنك قول: {choices}.',
+    formIncomplete: 'النموذج غير مكتمل.',
+
+    voiceProfile: 'ملف الصوت',
+    noVoiceServices: 'لم يتم تكوين أي خدمات صوتية. اتصل بالمسؤول لتمكين Azure Speech أو OpenAI TTS.',
+    preview: 'معاينة',
+    previewTitle: 'معاينة هذا الصوت',
+    previewText: 'مرحبًا، أنا مساعد المبيعات الخاص بك. كيف يمكنني مساعدتك اليوم؟',
+    using: 'يستخدم:',
+    voiceOutputEnabled: 'تم تمكين الإخراج الصوتي',
+    autoSpeak: 'قراءة الردود تلقائيًا',
+    autoSpeakHint: 'قراءة ردود الروبوت بصوت عالٍ تلقائيًا',
+    thinkingSound: 'صوت الانتظار',
+    thinkingSoundHint: 'تشغيل نغمة خفيفة أثناء انتظار الرد',
+    drivingMode: 'وضع القيادة',
+    drivingModeHint: 'صوت دائم التشغيل - يعمل الميكروفون تلقائيًا عند عدم التشغيل',
+    recognitionLanguage: 'لغة التعرف على الكلام',
+    sameAsChatLanguage: 'نفس لغة الدردشة',
+    voiceInputFilter: 'عامل تصفية الإدخال الصوتي',
+    voiceInputFilterHint: 'يتجاهل وضع القيادة الكلام غير الواضح أو المنخفض أو القصير جدًا. تُقبل الإجابات المكونة من كلمة واحدة بعد السؤال.',
+    minConfidence: 'الحد الأدنى للثقة: {value}',
+    minSpeechLevel: 'الحد الأدنى لمستوى الصوت: {value}',
+    minUtteranceLength: 'الحد الأدنى للطول: {value} أحرف',
+    filterOff: 'متوقف',
+    resetToDefaults: 'إعادة التعيين إلى الافتراضي',
+    wakePhraseListen: 'الاستماع إلى "{phrase}"',
+    wakePhraseHint: 'في وضع القيادة، قل العبارة بدلاً من الضغط على الميكروفون. تتم مطابقة صوتك على هذا الجهاز فقط.',
+    wakePhraseRecord: 'تسجيل العبارة',
+    wakePhraseRecordAgain: 'إعادة التسجيل',
+    wakePhraseRecording: 'قل "{phrase}" ({count} من {total})',
+    wakePhraseRecorded: 'تم تسجيل العبارة',
+    wakePhraseNotRecorded: 'سجّل العبارة {total} مرات لتفعيل هذا الخيار',
+    wakePhraseRecordFailed: 'لم تُسمع العبارة. يرجى المحاولة مرة أخرى.',
+
+    assistantTitle: 'مساعد Copilot',
+    statusPlaying: 'جارٍ تشغيل الرد - اضغط للإيقاف',
+    statusWaiting: 'يرد Copilot الآن... (الميكروفون متوقف مؤقتًا)',
+    statusListening: 'جارٍ الاستماع... تحدث الآن',
+    statusIdle: 'اضغط على الميكروفون لبدء الاستماع',
+    statusWakePhrase: 'قل "{phrase}" أو اضغط على الميكروفون',
+    commandCancelled: 'تم الإلغاء',
+    confirmSend: 'سمعت: {text}. هل أرسلها؟',
+    confirmSendRetry: 'قل نعم للإرسال، أو لا للإلغاء، أو تعديل لقولها مرة أخرى.',
+    confirmSendEdit: 'حسنًا، قل رسالتك مرة أخرى.',
+    nothingToRepeat: 'لا يوجد شيء لتكراره بعد.',
+    noCardToRead: 'لا توجد بطاقة لقراءتها.',
+    speechRateSlower: 'حسنًا، سأتحدث ببطء أكثر.',
+    speechRateFaster: 'حسنًا، سأتحدث بسرعة أكبر.',
+    speechRateSlowest: 'هذه أبطأ سرعة يمكنني التحدث بها.',
+    speechRateFastest: 'هذه أسرع سرعة يمكنني التحدث بها.',
+    voiceRepliesMuted: 'تم كتم الردود الصوتية. قل "شغل الصوت" لسماعها مرة أخرى.',
+    voiceRepliesOn: 'تم تشغيل الردود الصوتية مرة أخرى.',
+    speaking: 'يتحدث...',
+    alwaysOnVoice: 'صوت دائم التشغيل',
+    youSaid: 'قلت:',
+    copilotSaid: 'Copilot:',
+    newConversationTitle: 'بدء محادثة جديدة',
+    close: 'إغلاق',
+    closeDrivingModeTitle: 'إغلاق وضع القيادة',
+
+    processing: 'جارٍ المعالجة...',
+    removeAttachment: 'إزالة المرفق',
+    image: 'صورة',
+    downloadFile: 'تنزيل الملف',
+    fieldRequired: '{name} مطلوب.',
+    fieldInvalid: '{name} غير صالح.',
+    thisField: 'هذا الحقل',
+    cardRenderError: 'خطأ في عرض البطاقة',
+    tax: 'الضريبة',
+    vat: 'ضريبة القيمة المضافة',
+    total: 'الإجمالي'
+};
+
+/**
+ * String tables by primary language subtag
+ */
+export const STRING_TABLES: Record<string, StringTable> = { en, es, fr, de, ar };
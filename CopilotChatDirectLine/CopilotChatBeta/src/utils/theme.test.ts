@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_THEME, THEME_PRESETS, parseThemeJson, parseThemeName, resolveTheme } from './theme';
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('parseThemeJson', () => {
+    it('keeps known keys with the right type', () => {
+        expect(parseThemeJson('{"primaryColor": "#6b2c91", "cornerRadius": 4, "shadow": "none"}'))
+            .toEqual({ primaryColor: '#6b2c91', cornerRadius: 4 });
+    });
+
+    it('drops values of the wrong type or out of range', () => {
+        expect(parseThemeJson('{"primaryColor": 5, "textColor": "", "fontSize": 0, "cornerRadius": -1}')).toEqual({});
+        expect(parseThemeJson('{"cornerRadius": 0}')).toEqual({ cornerRadius: 0 });
+    });
+
+    it('ignores empty, malformed and non-object JSON', () => {
+        expect(parseThemeJson(undefined)).toEqual({});
+        expect(parseThemeJson('  ')).toEqual({});
+        expect(parseThemeJson('{primaryColor: red}')).toEqual({});
+        expect(parseThemeJson('["#6b2c91"]')).toEqual({});
+        expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('resolveTheme', () => {
+    it('uses the default theme when nothing is set', () => {
+        expect(resolveTheme()).toEqual(DEFAULT_THEME);
+    });
+
+    it('applies the theme JSON, then individual properties', () => {
+        const theme = resolveTheme({
+            themeJson: '{"primaryColor": "#6b2c91", "fontSize": 16}',
+            primaryColor: '#008272',
+            fontFamily: 'Georgia'
+        });
+
+        expect(theme).toMatchObject({ primaryColor: '#008272', fontSize: 16, fontFamily: 'Georgia' });
+        expect(theme.backgroundColor).toBe(DEFAULT_THEME.backgroundColor);
+    });
+
+    it('keeps the theme JSON value when a property is left empty', () => {
+        const theme = resolveTheme({ themeJson: '{"primaryColor": "#6b2c91"}', primaryColor: '', fontSize: undefined });
+
+        expect(theme.primaryColor).toBe('#6b2c91');
+        expect(theme.fontSize).toBe(DEFAULT_THEME.fontSize);
+    });
+});
+
+describe('parseThemeName', () => {
+    it('accepts the presets and auto in any case or spelling', () => {
+        expect(parseThemeName('Dark')).toBe('dark');
+        expect(parseThemeName(' AUTO ')).toBe('auto');
+        expect(parseThemeName('High Contrast')).toBe('high-contrast');
+        expect(parseThemeName('high_contrast')).toBe('high-contrast');
+        expect(parseThemeName('HighContrast')).toBe('high-contrast');
+    });
+
+    it('falls back to light', () => {
+        expect(parseThemeName(undefined)).toBe('light');
+        expect(parseThemeName('sepia')).toBe('light');
+    });
+});
+
+describe('resolveTheme presets', () => {
+    it('starts from the chosen preset', () => {
+        expect(resolveTheme({ preset: 'dark' })).toEqual(THEME_PRESETS.dark);
+        expect(resolveTheme({ preset: 'high-contrast' })).toEqual(THEME_PRESETS['high-contrast']);
+    });
+
+    it('lets the theme JSON and properties override the preset', () => {
+        const theme = resolveTheme({ preset: 'dark', themeJson: '{"cornerRadius": 0}', primaryColor: '#6b2c91' });
+
+        expect(theme).toEqual({ ...THEME_PRESETS.dark, cornerRadius: 0, primaryColor: '#6b2c91' });
+    });
+});
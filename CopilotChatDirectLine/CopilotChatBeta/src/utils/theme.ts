@@ -0,0 +1,184 @@
+/**
+ * Chat theme - colors, font and shape shared by the chat UI and Adaptive Cards
+ */
+
+export type ThemePresetName = 'light' | 'dark' | 'high-contrast';
+
+/**
+ * A preset, or 'auto' to follow the system color scheme
+ */
+export type ThemeName = ThemePresetName | 'auto';
+
+export interface ChatTheme {
+    primaryColor: string;       // Accent: user bubbles, buttons, links
+    primaryTextColor: string;   // Text drawn on the primary color
+    backgroundColor: string;    // Chat canvas
+    surfaceColor: string;       // Bot bubbles, cards, input bar, panels
+    textColor: string;
+    subtleTextColor: string;
+    borderColor: string;        // Control outlines
+    dividerColor: string;       // Separators between sections
+    selectedBackgroundColor: string;    // Active toggle (e.g. mic while listening)
+    disabledColor: string;
+    successColor: string;
+    errorColor: string;
+    errorBackgroundColor: string;
+    errorTextColor: string;
+    warningColor: string;
+    warningBackgroundColor: string;
+    warningTextColor: string;
+    textOnWarningColor: string;     // Text drawn on the warning color (e.g. the paused mic)
+    fontFamily: string;
+    fontSize: number;           // Base text size in px; card sizes scale from it
+    cornerRadius: number;       // Bubble and card radius in px
+}
+
+const FONT_FAMILY = '"Segoe UI", "Helvetica Neue", sans-serif';
+
+export const THEME_PRESETS: Record<ThemePresetName, ChatTheme> = {
+    light: {
+        primaryColor: '#0078d4',
+        primaryTextColor: '#ffffff',
+        backgroundColor: '#f3f2f1',
+        surfaceColor: '#ffffff',
+        textColor: '#323130',
+        subtleTextColor: '#605e5c',
+        borderColor: '#8a8886',
+        dividerColor: '#edebe9',
+        selectedBackgroundColor: '#c7e0f4',
+        disabledColor: '#c8c6c4',
+        successColor: '#107c10',
+        errorColor: '#d13438',
+        errorBackgroundColor: '#fde7e9',
+        errorTextColor: '#a80000',
+        warningColor: '#ffb900',
+        warningBackgroundColor: '#fff4ce',
+        warningTextColor: '#8a6d3b',
+        textOnWarningColor: '#323130',
+        fontFamily: FONT_FAMILY,
+        fontSize: 14,
+        cornerRadius: 12
+    },
+    dark: {
+        primaryColor: '#2886de',
+        primaryTextColor: '#ffffff',
+        backgroundColor: '#1b1a19',
+        surfaceColor: '#292827',
+        textColor: '#f3f2f1',
+        subtleTextColor: '#c8c6c4',
+        borderColor: '#8a8886',
+        dividerColor: '#3b3a39',
+        selectedBackgroundColor: '#004c87',
+        disabledColor: '#484644',
+        successColor: '#54b054',
+        errorColor: '#e37d80',
+        errorBackgroundColor: '#442726',
+        errorTextColor: '#f1bbbc',
+        warningColor: '#fce100',
+        warningBackgroundColor: '#433519',
+        warningTextColor: '#fce100',
+        textOnWarningColor: '#1b1a19',
+        fontFamily: FONT_FAMILY,
+        fontSize: 14,
+        cornerRadius: 12
+    },
+    'high-contrast': {
+        primaryColor: '#ffff00',
+        primaryTextColor: '#000000',
+        backgroundColor: '#000000',
+        surfaceColor: '#000000',
+        textColor: '#ffffff',
+        subtleTextColor: '#ffffff',
+        borderColor: '#ffffff',
+        dividerColor: '#ffffff',
+        selectedBackgroundColor: '#1aebff',
+        disabledColor: '#3ff23f',
+        successColor: '#3ff23f',
+        errorColor: '#ff6666',
+        errorBackgroundColor: '#000000',
+        errorTextColor: '#ff6666',
+        warningColor: '#ffff00',
+        warningBackgroundColor: '#000000',
+        warningTextColor: '#ffff00',
+        textOnWarningColor: '#000000',
+        fontFamily: FONT_FAMILY,
+        fontSize: 14,
+        cornerRadius: 4
+    }
+};
+
+export const DEFAULT_THEME: ChatTheme = THEME_PRESETS.light;
+
+/**
+ * Theme overrides from control properties; anything left empty keeps the theme JSON or default value
+ */
+export interface ThemeOptions {
+    preset?: ThemePresetName;
+    themeJson?: string;
+    primaryColor?: string;
+    backgroundColor?: string;
+    fontFamily?: string;
+    fontSize?: number;
+    cornerRadius?: number;
+}
+
+// Keep only the known theme keys whose values have the right type
+const pickThemeValues = (source: Record<string, unknown>): Partial<ChatTheme> => {
+    const picked: Record<string, unknown> = {};
+    for (const [key, defaultValue] of Object.entries(DEFAULT_THEME)) {
+        const value = source[key];
+        // A square corner radius is fine, a zero font size is not
+        const isInvalid = value === '' ||
+            (typeof value === 'number' && (!Number.isFinite(value) || value < 0 || (key === 'fontSize' && value === 0)));
+        if (typeof value === typeof defaultValue && !isInvalid) {
+            picked[key] = value;
+        }
+    }
+    return picked;
+};
+
+/**
+ * Parse a JSON theme, e.g. {"primaryColor": "#6b2c91", "cornerRadius": 4}
+ */
+export function parseThemeJson(themeJson?: string): Partial<ChatTheme> {
+    if (!themeJson || !themeJson.trim()) {
+        return {};
+    }
+
+    try {
+        const parsed: unknown = JSON.parse(themeJson);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            return pickThemeValues(parsed as Record<string, unknown>);
+        }
+        console.warn('⚠️ Theme JSON must be an object, using default theme');
+    } catch (error) {
+        console.warn('⚠️ Invalid theme JSON, using default theme:', error);
+    }
+    return {};
+}
+
+/**
+ * Normalize a theme name from the control property; unknown names fall back to light
+ */
+export function parseThemeName(name?: string): ThemeName {
+    const normalized = (name || '').trim().toLowerCase().replace(/[\s_]+/g, '-');
+    if (normalized === 'auto' || normalized === 'dark' || normalized === 'high-contrast') {
+        return normalized;
+    }
+    if (normalized === 'highcontrast' || normalized === 'contrast') {
+        return 'high-contrast';
+    }
+    return 'light';
+}
+
+/**
+ * Build the chat theme: the preset, then the theme JSON, then individual properties
+ */
+export function resolveTheme(options: ThemeOptions = {}): ChatTheme {
+    const { preset = 'light', themeJson, ...overrides } = options;
+    return {
+        ...THEME_PRESETS[preset],
+        ...parseThemeJson(themeJson),
+        ...pickThemeValues({ ...overrides })
+    };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_UTTERANCE_FILTER, filterUtterance, isQuestion, UtteranceContext } from './utteranceFilter';
+
+const context = (overrides: Partial<UtteranceContext> = {}): UtteranceContext => ({
+    expectsShortAnswer: false,
+    peakLevel: null,
+    locale: 'en-US',
+    ...overrides
+});
+
+describe('filterUtterance', () => {
+    it('accepts an ordinary sentence', () => {
+        expect(filterUtterance('What is the weather tomorrow', 0.9, context(), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: true });
+    });
+
+    it('rejects hesitations in the user language and in English', () => {
+        expect(filterUtterance('Umm...', 0.9, context(), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: false, reason: 'hesitation' });
+        expect(filterUtterance('euh', 0.9, context({ locale: 'fr-FR' }), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: false, reason: 'hesitation' });
+        expect(filterUtterance('hmm', 0.9, context({ locale: 'de-DE' }), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: false, reason: 'hesitation' });
+    });
+
+    it('rejects empty transcripts', () => {
+        expect(filterUtterance(' ?! ', 0.9, context(), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: false, reason: 'hesitation' });
+    });
+
+    it('rejects low confidence but ignores a missing score', () => {
+        expect(filterUtterance('Book a table for two', 0.2, context(), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: false, reason: 'lowConfidence' });
+        expect(filterUtterance('Book a table for two', 0, context(), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: true });
+        expect(filterUtterance('Book a table for two', undefined, context(), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: true });
+    });
+
+    it('rejects speech quieter than the level gate unless the gate is off', () => {
+        expect(filterUtterance('Book a table for two', 0.9, context({ peakLevel: 0.001 }), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: false, reason: 'tooQuiet' });
+        expect(filterUtterance('Book a table for two', 0.9, context({ peakLevel: 0.001 }),
+            { ...DEFAULT_UTTERANCE_FILTER, minSpeechLevel: 0 }))
+            .toEqual({ accepted: true });
+    });
+
+    it('only accepts short utterances when a short answer is expected', () => {
+        expect(filterUtterance('ok', 0.9, context(), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: false, reason: 'tooShort' });
+        expect(filterUtterance('ok', 0.9, context({ expectsShortAnswer: true }), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: true });
+    });
+
+    it('leaves short answers that clear the thresholds alone', () => {
+        expect(filterUtterance('no', 0.9, context({ expectsShortAnswer: true }), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: true });
+        expect(filterUtterance('yeah', 0.9, context(), DEFAULT_UTTERANCE_FILTER))
+            .toEqual({ accepted: true });
+    });
+
+    it('uses the configured minimum length', () => {
+        const settings = { ...DEFAULT_UTTERANCE_FILTER, minLength: 10 };
+        expect(filterUtterance('call mom', 0.9, context(), settings))
+            .toEqual({ accepted: false, reason: 'tooShort' });
+    });
+});
+
+describe('isQuestion', () => {
+    it('recognizes questions in Latin and Arabic script', () => {
+        expect(isQuestion('Do you want to continue? ')).toBe(true);
+        expect(isQuestion('هل تريد المتابعة؟')).toBe(true);
+        expect(isQuestion('Your order is confirmed.')).toBe(false);
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Utterance filtering - decides whether a Driving Mode transcript is something the user meant to say
+ * or road noise, a hesitation or a misfire. Short answers are only accepted when the bot is expecting one.
+ */
+
+import { getLanguage } from './i18n';
+import { normalizeUtterance } from './voiceCommands';
+
+/**
+ * Tunable thresholds, changed in settings
+ */
+export interface UtteranceFilterSettings {
+    minConfidence: number;      // Recognizer confidence (0-1) below which a transcript is dropped
+    minSpeechLevel: number;     // Peak mic level (RMS, 0-1) below which a transcript is dropped; 0 turns the gate off
+    minLength: number;          // Characters an utterance needs unless a short answer is expected
+}
+
+/**
+ * What else is known about the utterance
+ */
+export interface UtteranceContext {
+    expectsShortAnswer: boolean;    // The bot asked a question, offered choices, or a send awaits yes/no
+    peakLevel: number | null;       // Loudest mic level while listening, if measured
+    locale: string;
+}
+
+export type UtteranceRejection = 'hesitation' | 'lowConfidence' | 'tooQuiet' | 'tooShort';
+
+export type UtteranceVerdict = { accepted: true } | { accepted: false; reason: UtteranceRejection };
+
+export const DEFAULT_UTTERANCE_FILTER: UtteranceFilterSettings = {
+    minConfidence: 0.5,
+    minSpeechLevel: 0.01,
+    minLength: 3
+};
+
+// Sounds that are never an answer, per language
+const HESITATIONS: Record<string, string[]> = {
+    en: ['uh', 'um', 'umm', 'ah', 'er', 'erm', 'hmm', 'huh', 'mm', 'oh'],
+    es: ['eh', 'em', 'este', 'mmm', 'ah', 'oh'],
+    fr: ['euh', 'heu', 'hum', 'ben', 'bah', 'oh'],
+    de: ['äh', 'ähm', 'hm', 'hmm', 'na', 'oh'],
+    ar: ['امم', 'اه', 'يعني']
+};
+
+const isHesitation = (language: string, utterance: string): boolean =>
+    [...(HESITATIONS[language] || []), ...HESITATIONS.en].some(word => normalizeUtterance(word) === utterance);
+
+/**
+ * Run a final transcript through the filters, cheapest first
+ */
+export function filterUtterance(
+    transcript: string,
+    confidence: number | undefined,
+    context: UtteranceContext,
+    settings: UtteranceFilterSettings
+): UtteranceVerdict {
+    const utterance = normalizeUtterance(transcript);
+    const language = getLanguage(context.locale);
+
+    if (!utterance || isHesitation(language, utterance)) {
+        return { accepted: false, reason: 'hesitation' };
+    }
+
+    // Some browsers report 0 when they have no confidence score at all
+    if (confidence !== undefined && confidence > 0 && confidence < settings.minConfidence) {
+        return { accepted: false, reason: 'lowConfidence' };
+    }
+
+    if (settings.minSpeechLevel > 0 && context.peakLevel !== null && context.peakLevel < settings.minSpeechLevel) {
+        return { accepted: false, reason: 'tooQuiet' };
+    }
+
+    // Stray words from background speech are left to the confidence and level gates,
+    // so a deliberate "no" or "yeah" still gets through
+    if (!context.expectsShortAnswer && utterance.length < settings.minLength) {
+        return { accepted: false, reason: 'tooShort' };
+    }
+
+    return { accepted: true };
+}
+
+/**
+ * Whether a bot message invites a one-word reply
+ */
+export function isQuestion(text: string): boolean {
+    return /[?？؟]\s*$/.test(text.trim());
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createVoiceActivityDetector, getRms } from './voiceActivity';
+
+// Level the fake microphone is currently picking up
+let micLevel = 0;
+
+class FakeAudioContext {
+    createMediaStreamSource(): { connect: () => void; disconnect: () => void } {
+        return { connect: vi.fn(), disconnect: vi.fn() };
+    }
+
+    createAnalyser(): { fftSize: number; getFloatTimeDomainData: (samples: Float32Array) => void } {
+        return {
+            fftSize: 0,
+            getFloatTimeDomainData: samples => {
+                samples.fill(micLevel);
+            }
+        };
+    }
+
+    close(): Promise<void> {
+        return Promise.resolve();
+    }
+}
+
+const stream = {} as MediaStream;
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    micLevel = 0;
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+describe('getRms', () => {
+    it('measures loudness of a block of samples', () => {
+        expect(getRms(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toBeCloseTo(0.5);
+        expect(getRms(new Float32Array([]))).toBe(0);
+    });
+});
+
+describe('createVoiceActivityDetector', () => {
+    // The barge-in settings: loud and long enough to be the user, not road noise
+    const options = { threshold: 0.06, minSpeechMs: 500, silenceMs: 1200 };
+
+    it('ignores sound below the threshold', () => {
+        const onSpeechStart = vi.fn();
+        const detector = createVoiceActivityDetector(stream, { ...options, onSpeechStart });
+
+        micLevel = 0.04;
+        vi.advanceTimersByTime(2000);
+
+        expect(onSpeechStart).not.toHaveBeenCalled();
+        expect(detector.getLevel()).toBeCloseTo(0.04);
+        detector.stop();
+    });
+
+    it('ignores loud sounds shorter than the minimum duration', () => {
+        const onSpeechStart = vi.fn();
+        const detector = createVoiceActivityDetector(stream, { ...options, onSpeechStart });
+
+        micLevel = 0.2;
+        vi.advanceTimersByTime(300);
+        micLevel = 0;
+        vi.advanceTimersByTime(300);
+        micLevel = 0.2;
+        vi.advanceTimersByTime(300);
+
+        expect(onSpeechStart).not.toHaveBeenCalled();
+        detector.stop();
+    });
+
+    it('reports speech once it lasts long enough, and its end after the silence', () => {
+        const onSpeechStart = vi.fn();
+        const onSpeechEnd = vi.fn();
+        const detector = createVoiceActivityDetector(stream, { ...options, onSpeechStart, onSpeechEnd });
+
+        micLevel = 0.2;
+        vi.advanceTimersByTime(600);
+        expect(onSpeechStart).toHaveBeenCalledTimes(1);
+        expect(detector.isSpeaking()).toBe(true);
+
+        micLevel = 0;
+        vi.advanceTimersByTime(1000);
+        expect(onSpeechEnd).not.toHaveBeenCalled();
+        vi.advanceTimersByTime(300);
+        expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+        expect(detector.isSpeaking()).toBe(false);
+        detector.stop();
+    });
+
+    it('stops sampling when stopped', () => {
+        const onSpeechStart = vi.fn();
+        const detector = createVoiceActivityDetector(stream, { ...options, onSpeechStart });
+
+        detector.stop();
+        micLevel = 0.2;
+        vi.advanceTimersByTime(2000);
+
+        expect(onSpeechStart).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Voice activity detection - tells speech from silence on a microphone stream by signal energy
+ */
+
+import { getAudioContextConstructor } from './audioContext';
+
+export interface VoiceActivityOptions {
+    threshold?: number;     // RMS level (0-1) counted as speech (default: 0.02)
+    minSpeechMs?: number;   // Sound must last this long to count as speech (default: 150)
+    silenceMs?: number;     // Quiet after speech that ends it (default: 1200)
+    onSpeechStart?: () => void;
+    onSpeechEnd?: () => void;
+}
+
+export interface VoiceActivityDetector {
+    isSpeaking: () => boolean;
+    getLevel: () => number;     // Latest RMS level, 0-1
+    getPeakLevel: () => number; // Loudest RMS level since the detector started
+    stop: () => void;
+}
+
+// How often the level is sampled
+const POLL_INTERVAL_MS = 50;
+
+/**
+ * Root mean square of a block of samples - a simple loudness measure
+ */
+export function getRms(samples: Float32Array): number {
+    if (samples.length === 0) {
+        return 0;
+    }
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Watch a stream for speech. The caller owns the stream; stop() only releases the analyser.
+ */
+export function createVoiceActivityDetector(
+    stream: MediaStream,
+    options: VoiceActivityOptions = {}
+): VoiceActivityDetector {
+    const {
+        threshold = 0.02,
+        minSpeechMs = 150,
+        silenceMs = 1200,
+        onSpeechStart,
+        onSpeechEnd
+    } = options;
+
+    const audioContext = new (getAudioContextConstructor())();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    let level = 0;
+    let peakLevel = 0;
+    let speaking = false;
+    let loudSince: number | null = null;
+    let quietSince: number | null = null;
+
+    const poll = (): void => {
+        analyser.getFloatTimeDomainData(samples);
+        level = getRms(samples);
+        peakLevel = Math.max(peakLevel, level);
+        const now = Date.now();
+
+        if (level >= threshold) {
+            quietSince = null;
+            loudSince = loudSince ?? now;
+            if (!speaking && now - loudSince >= minSpeechMs) {
+                speaking = true;
+                onSpeechStart?.();
+            }
+        } else {
+            loudSince = null;
+            quietSince = quietSince ?? now;
+            if (speaking && now - quietSince >= silenceMs) {
+                speaking = false;
+                onSpeechEnd?.();
+            }
+        }
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+
+    return {
+        isSpeaking: () => speaking,
+        getLevel: () => level,
+        getPeakLevel: () => peakLevel,
+        stop: () => {
+            clearInterval(timer);
+            source.disconnect();
+            void audioContext.close();
+        }
+    };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeUtterance, parseConfirmation, parseVoiceCommand } from './voiceCommands';
+
+describe('normalizeUtterance', () => {
+    it('drops case, accents, apostrophes and punctuation', () => {
+        expect(normalizeUtterance('  Don’t SEND, please!  ')).toBe('dont send please');
+        expect(normalizeUtterance('Más despacio.')).toBe('mas despacio');
+    });
+});
+
+describe('parseVoiceCommand', () => {
+    it('matches whole utterances only', () => {
+        expect(parseVoiceCommand('Stop', 'en-US')).toBe('stop');
+        expect(parseVoiceCommand('stop at the next gas station', 'en-US')).toBeNull();
+    });
+
+    it('ignores politeness words around a command', () => {
+        expect(parseVoiceCommand('Please repeat that', 'en-US')).toBe('repeat');
+        expect(parseVoiceCommand('Cancel, thanks', 'en-US')).toBe('cancel');
+        expect(parseVoiceCommand("Don't send that", 'en-US')).toBe('cancel');
+    });
+
+    it('uses the grammar for the locale and still understands English', () => {
+        expect(parseVoiceCommand('Más despacio, por favor', 'es-ES')).toBe('slower');
+        expect(parseVoiceCommand('Fahrmodus beenden', 'de-DE')).toBe('exitDrivingMode');
+        expect(parseVoiceCommand('new chat', 'fr-FR')).toBe('newConversation');
+    });
+
+    it('does not use other languages than the locale and English', () => {
+        expect(parseVoiceCommand('más despacio', 'fr-FR')).toBeNull();
+    });
+});
+
+describe('parseConfirmation', () => {
+    it('understands yes, no and edit', () => {
+        expect(parseConfirmation('Yes, send it', 'en-US')).toBe('yes');
+        expect(parseConfirmation("That's wrong", 'en-US')).toBe('no');
+        expect(parseConfirmation('let me try again', 'en-US')).toBe('edit');
+    });
+
+    it('understands answers in the user language', () => {
+        expect(parseConfirmation('Oui', 'fr-FR')).toBe('yes');
+        expect(parseConfirmation('nein danke', 'de-DE')).toBe('no');
+        expect(parseConfirmation('لا', 'ar-SA')).toBe('no');
+    });
+
+    it('accepts English answers and polite words in any language', () => {
+        expect(parseConfirmation('Yes please', 'es-ES')).toBe('yes');
+        expect(parseConfirmation('Sí, por favor', 'es-ES')).toBe('yes');
+        expect(parseConfirmation('Cámbialo', 'es-ES')).toBe('edit');
+    });
+
+    it('returns null for anything else', () => {
+        expect(parseConfirmation('What time is it', 'en-US')).toBeNull();
+        expect(parseConfirmation('yes but change the date', 'en-US')).toBeNull();
+    });
+});
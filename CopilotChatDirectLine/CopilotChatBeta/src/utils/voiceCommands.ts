@@ -0,0 +1,196 @@
+/**
+ * Voice commands - short phrases in Driving Mode that control the chat instead of going to the bot
+ */
+
+import { getLanguage } from './i18n';
+
+export type VoiceCommand =
+    | 'stop'
+    | 'repeat'
+    | 'newConversation'
+    | 'slower'
+    | 'faster'
+    | 'mute'
+    | 'unmute'
+    | 'exitDrivingMode'
+    | 'readCard'
+    | 'cancel';
+
+// Answers when a message is read back before sending
+export type ConfirmationAnswer = 'yes' | 'no' | 'edit';
+
+// Whole utterances recognized as each meaning, per language
+type Grammar<T extends string> = Record<T, string[]>;
+
+// Matching ignores case, accents and punctuation
+const COMMAND_GRAMMARS: Record<string, Grammar<VoiceCommand>> = {
+    en: {
+        stop: ['stop', 'stop talking', 'be quiet', 'quiet'],
+        repeat: ['repeat', 'repeat that', 'say that again', 'say again', 'again', 'what did you say'],
+        newConversation: ['new conversation', 'start a new conversation', 'new chat', 'start over'],
+        slower: ['slower', 'slow down', 'speak slower', 'talk slower'],
+        faster: ['faster', 'speed up', 'speak faster', 'talk faster'],
+        mute: ['mute', 'mute voice', 'stop speaking replies'],
+        unmute: ['unmute', 'unmute voice', 'voice on'],
+        exitDrivingMode: ['exit driving mode', 'close driving mode', 'leave driving mode', 'stop driving mode', 'end driving mode'],
+        readCard: ['read the card', 'read card', 'read the form', 'read it out'],
+        cancel: ['cancel', 'cancel that', 'never mind', 'nevermind', "don't send", "don't send that"]
+    },
+    es: {
+        stop: ['para', 'detente', 'basta', 'silencio'],
+        repeat: ['repite', 'repítelo', 'repite eso', 'otra vez', 'qué dijiste'],
+        newConversation: ['nueva conversación', 'empezar de nuevo', 'nuevo chat'],
+        slower: ['más despacio', 'más lento', 'habla más despacio'],
+        faster: ['más rápido', 'habla más rápido'],
+        mute: ['silenciar', 'silencia la voz'],
+        unmute: ['activar voz', 'activar sonido'],
+        exitDrivingMode: ['salir del modo de conducción', 'cerrar el modo de conducción'],
+        readCard: ['lee la tarjeta', 'leer la tarjeta', 'lee el formulario'],
+        cancel: ['cancelar', 'cancela', 'olvídalo', 'no lo envíes']
+    },
+    fr: {
+        stop: ['stop', 'arrête', 'tais-toi', 'silence'],
+        repeat: ['répète', 'répète ça', 'encore', 'tu peux répéter'],
+        newConversation: ['nouvelle conversation', 'recommencer', 'nouveau chat'],
+        slower: ['plus lentement', 'moins vite', 'parle plus lentement'],
+        faster: ['plus vite', 'plus rapidement', 'parle plus vite'],
+        mute: ['muet', 'couper le son', 'coupe le son'],
+        unmute: ['remettre le son', 'remets le son', 'réactiver le son'],
+        exitDrivingMode: ['quitter le mode conduite', 'fermer le mode conduite'],
+        readCard: ['lis la carte', 'lire la carte', 'lis le formulaire'],
+        cancel: ['annuler', 'annule', 'laisse tomber', 'ne l\'envoie pas']
+    },
+    de: {
+        stop: ['stopp', 'stop', 'halt', 'ruhe'],
+        repeat: ['wiederholen', 'wiederhole das', 'noch einmal', 'nochmal', 'was hast du gesagt'],
+        newConversation: ['neue unterhaltung', 'neues Gespräch', 'von vorne'],
+        slower: ['langsamer', 'sprich langsamer'],
+        faster: ['schneller', 'sprich schneller'],
+        mute: ['stumm', 'stummschalten', 'ton aus'],
+        unmute: ['ton an', 'stummschaltung aufheben'],
+        exitDrivingMode: ['fahrmodus beenden', 'fahrmodus schließen', 'fahrmodus verlassen'],
+        readCard: ['karte vorlesen', 'lies die karte', 'formular vorlesen'],
+        cancel: ['abbrechen', 'vergiss es', 'nicht senden']
+    },
+    ar: {
+        stop: ['توقف', 'قف', 'اسكت'],
+        repeat: ['كرر', 'كرر ذلك', 'أعد', 'مرة أخرى'],
+        newConversation: ['محادثة جديدة', 'ابدأ من جديد'],
+        slower: ['أبطأ', 'تحدث ببطء'],
+        faster: ['أسرع', 'تحدث بسرعة'],
+        mute: ['كتم الصوت', 'اكتم الصوت'],
+        unmute: ['إلغاء الكتم', 'شغل الصوت'],
+        exitDrivingMode: ['الخروج من وضع القيادة', 'أغلق وضع القيادة'],
+        readCard: ['اقرأ البطاقة', 'اقرأ النموذج'],
+        cancel: ['إلغاء', 'ألغ', 'لا ترسل']
+    }
+};
+
+const CONFIRMATION_GRAMMARS: Record<string, Grammar<ConfirmationAnswer>> = {
+    en: {
+        yes: ['yes', 'yeah', 'yep', 'yup', 'sure', 'ok', 'okay', 'send', 'send it', 'yes send it', 'correct', 'that\'s right', 'go ahead'],
+        no: ['no', 'nope', 'no thanks', 'wrong', 'that\'s wrong', 'don\'t send it'],
+        edit: ['edit', 'edit it', 'change it', 'rephrase', 'let me rephrase', 'try again', 'let me try again']
+    },
+    es: {
+        yes: ['sí', 'claro', 'vale', 'envíalo', 'enviar', 'correcto'],
+        no: ['no', 'no gracias', 'incorrecto'],
+        edit: ['editar', 'cambiar', 'cámbialo', 'corregir']
+    },
+    fr: {
+        yes: ['oui', 'ouais', 'd\'accord', 'envoie', 'envoie-le', 'envoyer', 'c\'est ça'],
+        no: ['non', 'non merci', 'c\'est faux'],
+        edit: ['modifier', 'changer', 'corriger', 'je reformule']
+    },
+    de: {
+        yes: ['ja', 'genau', 'richtig', 'okay', 'senden', 'schick es'],
+        no: ['nein', 'nein danke', 'falsch'],
+        edit: ['bearbeiten', 'ändern', 'korrigieren', 'nochmal anders']
+    },
+    ar: {
+        yes: ['نعم', 'أجل', 'أرسل', 'أرسلها', 'صحيح'],
+        no: ['لا', 'لا شكرًا', 'خطأ'],
+        edit: ['تعديل', 'عدّل', 'غيّر']
+    }
+};
+
+// Politeness and address words allowed around a command ("please stop", "cancel, thanks")
+const FILLER_WORDS: Record<string, string[]> = {
+    en: ['please', 'thanks', 'thank you', 'ok', 'okay', 'hey', 'copilot'],
+    es: ['por favor', 'gracias', 'oye'],
+    fr: ['s\'il te plaît', 's\'il vous plaît', 'merci'],
+    de: ['bitte', 'danke'],
+    ar: ['من فضلك', 'لو سمحت', 'شكرًا']
+};
+
+/**
+ * Lowercase, drop accents, apostrophes and punctuation, and collapse whitespace
+ */
+export function normalizeUtterance(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+const stripFillers = (utterance: string, fillers: string[]): string => {
+    let result = utterance;
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const filler of fillers) {
+            if (result.startsWith(`${filler} `)) {
+                result = result.slice(filler.length + 1);
+                changed = true;
+            } else if (result.endsWith(` ${filler}`)) {
+                result = result.slice(0, -filler.length - 1);
+                changed = true;
+            }
+        }
+    }
+    return result;
+};
+
+// Look a whole utterance up in the grammar for its language, then in English
+const matchGrammar = <T extends string>(
+    transcript: string,
+    locale: string,
+    grammars: Record<string, Grammar<T>>
+): T | null => {
+    const language = getLanguage(locale);
+    const languages = language === 'en' ? ['en'] : [language, 'en'];
+    const fillers = languages.flatMap(lang => FILLER_WORDS[lang] || []).map(normalizeUtterance);
+    const utterance = stripFillers(normalizeUtterance(transcript), fillers);
+
+    for (const lang of languages) {
+        const grammar = grammars[lang];
+        if (!grammar) {
+            continue;
+        }
+        const match = (Object.keys(grammar) as T[]).find(meaning =>
+            grammar[meaning].some(phrase => normalizeUtterance(phrase) === utterance));
+        if (match) {
+            return match;
+        }
+    }
+    return null;
+};
+
+/**
+ * The command a transcript is, if any. Only whole utterances match, so "stop at the next gas station"
+ * still goes to the bot. English commands work in every language.
+ */
+export function parseVoiceCommand(transcript: string, locale: string): VoiceCommand | null {
+    return matchGrammar(transcript, locale, COMMAND_GRAMMARS);
+}
+
+/**
+ * The answer to "Send it?", if the transcript is one
+ */
+export function parseConfirmation(transcript: string, locale: string): ConfirmationAnswer | null {
+    return matchGrammar(transcript, locale, CONFIRMATION_GRAMMARS);
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWakePhraseModel, dtwDistance, extractFeatures, matchesWakePhrase } from './wakeWord';
+
+const SAMPLE_RATE = 16000;
+
+// Deterministic noise so runs are repeatable
+const createNoise = (seed: number): (() => number) => {
+    let state = seed;
+    return () => {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        return state / 2147483648 - 0.5;
+    };
+};
+
+const PITCH = 120;
+
+/**
+ * A stand-in for a spoken phrase: voiced sounds on a steady pitch, each given as
+ * [first formant Hz, second formant Hz, length in ms]
+ */
+const synthesize = (sounds: Array<[number, number, number]>, seed = 1, sampleRate = SAMPLE_RATE): Float32Array => {
+    const noise = createNoise(seed);
+    const resonance = (hz: number, formant: number): number => Math.exp(-(((hz - formant) / 150) ** 2));
+    const counts = sounds.map(([, , ms]) => Math.round(ms * sampleRate / 1000));
+    const samples = new Float32Array(counts.reduce((sum, count) => sum + count, 0));
+    let offset = 0;
+    sounds.forEach(([first, second], index) => {
+        const harmonics = Array.from({ length: 60 }, (_, h) => (h + 1) * PITCH);
+        const gains = harmonics.map(hz => 0.02 + resonance(hz, first) + 0.6 * resonance(hz, second));
+        for (let i = 0; i < counts[index]; i++) {
+            const t = (offset + i) / sampleRate;
+            const voiced = harmonics.reduce((sum, hz, h) => sum + gains[h] * Math.sin(2 * Math.PI * hz * t), 0);
+            samples[offset + i] = 0.1 * voiced + 0.01 * noise();
+        }
+        offset += counts[index];
+    });
+    return samples;
+};
+
+// Roughly "ah - ee - oo"
+const phrase = (stretch = 1): Array<[number, number, number]> =>
+    [[750, 1200, 200 * stretch], [300, 2300, 250 * stretch], [350, 800, 200 * stretch]];
+
+// The same sounds in another order
+const otherPhrase = (): Array<[number, number, number]> =>
+    [[300, 2300, 200], [350, 800, 250], [750, 1200, 200]];
+
+beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('extractFeatures', () => {
+    it('produces 12 coefficients per 10ms frame', () => {
+        const features = extractFeatures(synthesize([[750, 1200, 500]]), SAMPLE_RATE);
+
+        expect(features).toHaveLength(Math.floor((8000 - 400) / 160) + 1);
+        expect(features.every(frame => frame.length === 12)).toBe(true);
+    });
+
+    it('resamples other sample rates to the same frames', () => {
+        const features = extractFeatures(synthesize([[750, 1200, 500]], 1, 48000), 48000);
+
+        expect(features).toHaveLength(Math.floor((8000 - 400) / 160) + 1);
+    });
+
+    it('returns no frames for audio shorter than one frame', () => {
+        expect(extractFeatures(new Float32Array(100), SAMPLE_RATE)).toEqual([]);
+    });
+
+    it('is not affected by loudness', () => {
+        const quiet = synthesize(phrase()).map(sample => sample * 0.1);
+
+        expect(dtwDistance(extractFeatures(quiet, SAMPLE_RATE), extractFeatures(synthesize(phrase()), SAMPLE_RATE)))
+            .toBeLessThan(1e-3);
+    });
+});
+
+describe('dtwDistance', () => {
+    it('is zero for identical sequences and infinite for empty ones', () => {
+        const features = extractFeatures(synthesize(phrase()), SAMPLE_RATE);
+
+        expect(dtwDistance(features, features)).toBe(0);
+        expect(dtwDistance(features, [])).toBe(Infinity);
+    });
+
+    it('finds the same phrase said faster closer than a different one', () => {
+        const features = extractFeatures(synthesize(phrase()), SAMPLE_RATE);
+        const faster = extractFeatures(synthesize(phrase(0.8), 2), SAMPLE_RATE);
+        const different = extractFeatures(synthesize(otherPhrase(), 3), SAMPLE_RATE);
+
+        expect(dtwDistance(features, faster)).toBeLessThan(dtwDistance(features, different));
+    });
+});
+
+describe('wake phrase model', () => {
+    const templates = [
+        extractFeatures(synthesize(phrase(1), 1), SAMPLE_RATE),
+        extractFeatures(synthesize(phrase(0.9), 2), SAMPLE_RATE),
+        extractFeatures(synthesize(phrase(1.1), 3), SAMPLE_RATE)
+    ];
+    const model = createWakePhraseModel('hey copilot', templates);
+
+    it('sets the threshold from how alike the samples are', () => {
+        const pairs = [[0, 1], [0, 2], [1, 2]].map(([i, j]) => dtwDistance(templates[i], templates[j]));
+
+        expect(model.phrase).toBe('hey copilot');
+        expect(model.threshold).toBeCloseTo(1.35 * pairs.reduce((sum, d) => sum + d, 0) / pairs.length);
+    });
+
+    it('matches another take of the phrase', () => {
+        expect(matchesWakePhrase(extractFeatures(synthesize(phrase(0.95), 4), SAMPLE_RATE), model)).toBe(true);
+    });
+
+    it('rejects a different phrase of the same length', () => {
+        const other = extractFeatures(synthesize(otherPhrase(), 5), SAMPLE_RATE);
+
+        expect(matchesWakePhrase(other, model)).toBe(false);
+    });
+
+    it('rejects utterances far shorter or longer than the phrase', () => {
+        expect(matchesWakePhrase(extractFeatures(synthesize([[750, 1200, 200]], 6), SAMPLE_RATE), model)).toBe(false);
+        expect(matchesWakePhrase(extractFeatures(synthesize(phrase(3), 7), SAMPLE_RATE), model)).toBe(false);
+    });
+});
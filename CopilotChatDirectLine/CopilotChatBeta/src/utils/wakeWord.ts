@@ -0,0 +1,287 @@
+/**
+ * Wake phrase spotting - entirely on the device. Utterances are cut from the mic by energy,
+ * turned into MFCC features and compared with the user's recorded samples of the phrase
+ * using dynamic time warping.
+ */
+
+import { getRms } from './voiceActivity';
+import { getAudioContextConstructor } from './audioContext';
+
+/**
+ * Recorded samples of the wake phrase and the distance that still counts as a match
+ */
+export interface WakePhraseModel {
+    phrase: string;
+    templates: number[][][];    // MFCC frames per sample
+    threshold: number;
+}
+
+export interface UtteranceListenerOptions {
+    threshold?: number;     // RMS level counted as sound (default: 0.015)
+    silenceMs?: number;     // Quiet that ends an utterance (default: 400)
+    minMs?: number;         // Shorter sounds are ignored (default: 300)
+    maxMs?: number;         // Longer sounds are ignored - wake phrases are short (default: 3000)
+}
+
+export interface UtteranceListener {
+    stop: () => void;
+}
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 400;     // 25ms
+const FRAME_STEP = 160;     // 10ms
+const FFT_SIZE = 512;
+const MEL_FILTERS = 26;
+const CEPSTRAL_COEFFICIENTS = 12;
+const PROCESSOR_BUFFER_SIZE = 2048;
+
+// Matches can be this much further from the samples than the samples are from each other
+const THRESHOLD_MARGIN = 1.35;
+
+// Linear-interpolation resample, good enough for speech features
+const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+    if (fromRate === toRate) {
+        return samples;
+    }
+    const ratio = fromRate / toRate;
+    const output = new Float32Array(Math.floor(samples.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+        const position = i * ratio;
+        const index = Math.floor(position);
+        const next = Math.min(index + 1, samples.length - 1);
+        output[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+    }
+    return output;
+};
+
+// In-place iterative radix-2 FFT
+const fft = (real: Float64Array, imag: Float64Array): void => {
+    const n = real.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j], real[i]];
+            [imag[i], imag[j]] = [imag[j], imag[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = -2 * Math.PI / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < size / 2; k++) {
+                const cos = Math.cos(angle * k);
+                const sin = Math.sin(angle * k);
+                const a = start + k;
+                const b = a + size / 2;
+                const tReal = real[b] * cos - imag[b] * sin;
+                const tImag = real[b] * sin + imag[b] * cos;
+                real[b] = real[a] - tReal;
+                imag[b] = imag[a] - tImag;
+                real[a] += tReal;
+                imag[a] += tImag;
+            }
+        }
+    }
+};
+
+const hzToMel = (hz: number): number => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number): number => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular mel filters over the FFT bins, built once
+const MEL_FILTERBANK: number[][] = (() => {
+    const maxMel = hzToMel(SAMPLE_RATE / 2);
+    const bins = Array.from({ length: MEL_FILTERS + 2 }, (_, i) =>
+        Math.floor((FFT_SIZE + 1) * melToHz(maxMel * i / (MEL_FILTERS + 1)) / SAMPLE_RATE));
+    return Array.from({ length: MEL_FILTERS }, (_, m) => {
+        const filter = new Array<number>(FFT_SIZE / 2 + 1).fill(0);
+        const [left, center, right] = [bins[m], bins[m + 1], bins[m + 2]];
+        for (let k = left; k < center; k++) {
+            filter[k] = (k - left) / Math.max(1, center - left);
+        }
+        for (let k = center; k < right; k++) {
+            filter[k] = (right - k) / Math.max(1, right - center);
+        }
+        return filter;
+    });
+})();
+
+const HAMMING_WINDOW = Array.from({ length: FRAME_SIZE }, (_, i) =>
+    0.54 - 0.46 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1)));
+
+/**
+ * MFCC frames (coefficients 1-12, mean-normalized) - loudness and mic coloring largely cancel out
+ */
+export function extractFeatures(samples: Float32Array, sampleRate: number): number[][] {
+    const audio = resample(samples, sampleRate, SAMPLE_RATE);
+    const frames: number[][] = [];
+
+    for (let start = 0; start + FRAME_SIZE <= audio.length; start += FRAME_STEP) {
+        const real = new Float64Array(FFT_SIZE);
+        const imag = new Float64Array(FFT_SIZE);
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            // Pre-emphasis lifts the high frequencies that carry consonants
+            const previous = start + i > 0 ? audio[start + i - 1] : 0;
+            real[i] = (audio[start + i] - 0.97 * previous) * HAMMING_WINDOW[i];
+        }
+        fft(real, imag);
+
+        const power = Array.from({ length: FFT_SIZE / 2 + 1 }, (_, k) =>
+            (real[k] * real[k] + imag[k] * imag[k]) / FFT_SIZE);
+        const logEnergies = MEL_FILTERBANK.map(filter =>
+            Math.log(Math.max(1e-10, filter.reduce((sum, weight, k) => sum + weight * power[k], 0))));
+
+        // DCT-II, skipping c0 (overall loudness)
+        frames.push(Array.from({ length: CEPSTRAL_COEFFICIENTS }, (_, c) =>
+            logEnergies.reduce((sum, energy, m) =>
+                sum + energy * Math.cos(Math.PI * (c + 1) * (m + 0.5) / MEL_FILTERS), 0)));
+    }
+
+    if (frames.length === 0) {
+        return frames;
+    }
+    const means = frames[0].map((_, c) => frames.reduce((sum, frame) => sum + frame[c], 0) / frames.length);
+    return frames.map(frame => frame.map((value, c) => value - means[c]));
+}
+
+/**
+ * Dynamic time warping distance, normalized by length so short and long phrases compare fairly
+ */
+export function dtwDistance(a: number[][], b: number[][]): number {
+    if (a.length === 0 || b.length === 0) {
+        return Infinity;
+    }
+    const frameDistance = (x: number[], y: number[]): number =>
+        Math.sqrt(x.reduce((sum, value, i) => sum + (value - y[i]) ** 2, 0));
+
+    let previous = new Array<number>(b.length + 1).fill(Infinity);
+    previous[0] = 0;
+    for (let i = 1; i <= a.length; i++) {
+        const current = new Array<number>(b.length + 1).fill(Infinity);
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = frameDistance(a[i - 1], b[j - 1]) + Math.min(previous[j], current[j - 1], previous[j - 1]);
+        }
+        previous = current;
+    }
+    return previous[b.length] / (a.length + b.length);
+}
+
+/**
+ * Build a model from recorded samples; the match threshold comes from how alike the samples are
+ */
+export function createWakePhraseModel(phrase: string, templates: number[][][]): WakePhraseModel {
+    const distances: number[] = [];
+    for (let i = 0; i < templates.length; i++) {
+        for (let j = i + 1; j < templates.length; j++) {
+            distances.push(dtwDistance(templates[i], templates[j]));
+        }
+    }
+    const average = distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : 0;
+    return { phrase, templates, threshold: average * THRESHOLD_MARGIN };
+}
+
+/**
+ * Whether an utterance sounds like the wake phrase
+ */
+export function matchesWakePhrase(features: number[][], model: WakePhraseModel): boolean {
+    const lengths = model.templates.map(template => template.length);
+    const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(1, lengths.length);
+    // Skip the warping for utterances far shorter or longer than the phrase
+    if (features.length < averageLength * 0.5 || features.length > averageLength * 2) {
+        return false;
+    }
+    const best = Math.min(...model.templates.map(template => dtwDistance(features, template)));
+    console.log(`👂 Wake phrase distance ${best.toFixed(2)} (threshold ${model.threshold.toFixed(2)})`);
+    return best <= model.threshold;
+}
+
+/**
+ * Cut the mic stream into utterances separated by silence and hand each one over as raw samples
+ */
+export async function listenForUtterances(
+    onUtterance: (samples: Float32Array, sampleRate: number) => void,
+    options: UtteranceListenerOptions = {}
+): Promise<UtteranceListener> {
+    const { threshold = 0.015, silenceMs = 400, minMs = 300, maxMs = 3000 } = options;
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+    });
+    const audioContext = new (getAudioContextConstructor())();
+    const source = audioContext.createMediaStreamSource(stream);
+    // ScriptProcessorNode is deprecated, but an AudioWorklet would need a separately served module
+    const processor = audioContext.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+    const blockMs = PROCESSOR_BUFFER_SIZE / audioContext.sampleRate * 1000;
+
+    let previousBlock: Float32Array | null = null;
+    let blocks: Float32Array[] = [];
+    let quietMs = 0;
+
+    processor.onaudioprocess = event => {
+        const block = new Float32Array(event.inputBuffer.getChannelData(0));
+        const isLoud = getRms(block) >= threshold;
+
+        if (blocks.length === 0) {
+            if (isLoud) {
+                // Keep the block before the onset so the first sound isn't clipped
+                blocks = previousBlock ? [previousBlock, block] : [block];
+                quietMs = 0;
+            }
+            previousBlock = block;
+            return;
+        }
+
+        blocks.push(block);
+        quietMs = isLoud ? 0 : quietMs + blockMs;
+        const durationMs = blocks.length * blockMs;
+
+        if (durationMs > maxMs + silenceMs) {
+            blocks = [];
+        } else if (quietMs >= silenceMs) {
+            const spokenMs = durationMs - quietMs;
+            if (spokenMs >= minMs && spokenMs <= maxMs) {
+                const samples = new Float32Array(blocks.length * PROCESSOR_BUFFER_SIZE);
+                blocks.forEach((b, i) => samples.set(b, i * PROCESSOR_BUFFER_SIZE));
+                onUtterance(samples, audioContext.sampleRate);
+            }
+            blocks = [];
+        }
+        previousBlock = block;
+    };
+
+    // The processor only runs while connected to the output; it writes silence
+    source.connect(processor);
+    processor.connect(audioContext.destination);
+
+    return {
+        stop: () => {
+            processor.onaudioprocess = null;
+            processor.disconnect();
+            source.disconnect();
+            stream.getTracks().forEach(track => track.stop());
+            void audioContext.close();
+        }
+    };
+}
+
+/**
+ * Record one spoken sample of the wake phrase; resolves null if nothing was said in time
+ */
+export async function recordWakePhraseSample(timeoutMs = 5000): Promise<number[][] | null> {
+    let finish: (features: number[][] | null) => void = () => undefined;
+    const result = new Promise<number[][] | null>(resolve => { finish = resolve; });
+
+    const listener = await listenForUtterances((samples, sampleRate) => {
+        finish(extractFeatures(samples, sampleRate));
+    });
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    try {
+        return await result;
+    } finally {
+        clearTimeout(timer);
+        listener.stop();
+    }
+}